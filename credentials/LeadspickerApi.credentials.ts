@@ -25,7 +25,15 @@ export class LeadspickerApi implements ICredentialType {
 			name: 'domain',
 			type: 'string',
 			default: 'https://app.leadspicker.com',
-			//default: 'http://localhost:8000',
+			description:
+				'Base URL of your Leadspicker instance. The https:// scheme is added when omitted.',
+		},
+		{
+			displayName: 'API Path Prefix',
+			name: 'apiPrefix',
+			type: 'string',
+			default: '/app/sb/api',
+			description: 'Path under the domain where the Leadspicker API is served',
 		},
 	];
 
@@ -45,8 +53,9 @@ export class LeadspickerApi implements ICredentialType {
 	// The block below tells how this credential can be tested
 	test: ICredentialTestRequest = {
 		request: {
-			baseURL: '={{$credentials?.domain}}',
-			url: '/app/sb/api/auth/me',
+			baseURL:
+				'={{ ((/^[a-z][a-z\\d+\\-.]*:\\/\\//i.test(($credentials?.domain || "").trim() || "https://app.leadspicker.com") ? "" : "https://") + (($credentials?.domain || "").trim() || "https://app.leadspicker.com")).replace(/\\/+$/, "") }}',
+			url: '={{ ("/" + ($credentials?.apiPrefix ?? "/app/sb/api") + "/auth/me").replace(/\\/+/g, "/") }}',
 		},
 	};
 }
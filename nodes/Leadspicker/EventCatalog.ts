@@ -0,0 +1,288 @@
+import type { IDataObject, INodePropertyOptions } from 'n8n-workflow';
+
+/**
+ * How an event's payload is shaped, which decides how the trigger normalizes it:
+ * campaign state changes, sequence progress, outgoing messages, replies, bounces,
+ * outreach account changes and new leads.
+ */
+export type LeadspickerEventKind =
+	| 'account'
+	| 'bounce'
+	| 'campaign'
+	| 'lead'
+	| 'message'
+	| 'reply'
+	| 'sequence';
+
+export interface ILeadspickerEvent {
+	value: string;
+	name: string;
+	description: string;
+	kind: LeadspickerEventKind;
+	/** Whether the event shows up in the campaign log (`/projects/{id}/events`). */
+	timeline: boolean;
+	/** Whether a webhook can subscribe to the event. */
+	webhook: boolean;
+	/** Outreach step type of the sample payload; empty for email steps. */
+	stepType?: string;
+}
+
+function event(
+	value: string,
+	name: string,
+	description: string,
+	kind: LeadspickerEventKind,
+	options: Partial<Pick<ILeadspickerEvent, 'timeline' | 'webhook' | 'stepType'>> = {},
+): ILeadspickerEvent {
+	return { value, name, description, kind, timeline: true, webhook: true, ...options };
+}
+
+export const EVENT_CATALOG: ILeadspickerEvent[] = [
+	event('account_revoked', 'Account Revoked', 'Linked account was revoked', 'account', {
+		timeline: false,
+	}),
+	event('bounced', 'Bounced', 'A message of the sequence bounced', 'bounce', { stepType: '' }),
+	event('custom_action_sent', 'Custom Action Sent', 'A custom action step ran', 'sequence', {
+		stepType: 'custom',
+	}),
+	event(
+		'custom_action_error',
+		'Custom Action Sending Failed',
+		'A custom action step failed',
+		'sequence',
+		{ stepType: 'custom' },
+	),
+	event(
+		'custom_action_skipped',
+		'Custom Action Skipped',
+		'A custom action step was skipped',
+		'sequence',
+		{
+			stepType: 'custom',
+		},
+	),
+	event('delay_started', 'Delay Started', 'The lead entered a delay step', 'sequence', {
+		stepType: 'delay',
+	}),
+	event('email_bounced', 'Email Bounced', 'Leadspicker reports a bounced email', 'bounce', {
+		stepType: '',
+	}),
+	event('email_reply', 'Email Reply', 'Reply received on a sent email', 'reply', { stepType: '' }),
+	event('email_sent', 'Email Sent', 'Trigger when Leadspicker delivers an email', 'message', {
+		stepType: '',
+	}),
+	event(
+		'linkedin_already_connected',
+		'LinkedIn Already Connected',
+		'The lead was already a LinkedIn connection',
+		'sequence',
+		{ stepType: 'connect' },
+	),
+	event(
+		'linkedin_cannot_resend_yet',
+		'LinkedIn Cannot Resend Yet',
+		'A connection request cannot be sent again yet',
+		'sequence',
+		{ stepType: 'connect' },
+	),
+	event(
+		'linkedin_connection_accepted',
+		'LinkedIn Connection Accepted',
+		'The lead accepted a connection request',
+		'sequence',
+		{ stepType: 'connect' },
+	),
+	event(
+		'linkedin_connection_sent',
+		'LinkedIn Connection Sent',
+		'A connection request was sent',
+		'message',
+		{ stepType: 'connect' },
+	),
+	event(
+		'linkedin_connection_withdrawn',
+		'LinkedIn Connection Withdrawn',
+		'A pending connection request was withdrawn',
+		'sequence',
+		{ stepType: 'connect' },
+	),
+	event('linkedin_inmail_reply', 'LinkedIn InMail Reply', 'Reply received on an InMail', 'reply', {
+		stepType: 'inmail_message',
+	}),
+	event('linkedin_inmail_sent', 'LinkedIn InMail Sent', 'An InMail was sent', 'message', {
+		stepType: 'inmail_message',
+	}),
+	event(
+		'linkedin_message_reply',
+		'LinkedIn Message Reply',
+		'Reply received on a LinkedIn message',
+		'reply',
+		{ stepType: 'message' },
+	),
+	event(
+		'linkedin_message_sent',
+		'LinkedIn Message Sent',
+		'A LinkedIn message was sent',
+		'message',
+		{
+			stepType: 'message',
+		},
+	),
+	event('linkedin_reply', 'LinkedIn Reply', 'Reply received on LinkedIn', 'reply', {
+		timeline: false,
+		stepType: 'message',
+	}),
+	event('linkedin_sent', 'LinkedIn Sent', 'LinkedIn outreach sent', 'message', {
+		timeline: false,
+		stepType: 'message',
+	}),
+	event(
+		'linkedin_status',
+		'LinkedIn Status Update',
+		'LinkedIn status of the lead changed',
+		'sequence',
+		{
+			stepType: 'connect',
+		},
+	),
+	event('person_added', 'Lead Added', 'Trigger when a new lead is added to the project', 'lead', {
+		timeline: false,
+	}),
+	event('message_sent', 'Message Sent', 'A message of the sequence was sent', 'message', {
+		stepType: '',
+	}),
+	event('project_paused', 'Project Paused', 'The campaign was paused', 'campaign'),
+	event('project_started', 'Project Started', 'The campaign was started', 'campaign'),
+	event('reply_received', 'Reply Received', 'The lead replied', 'reply', { stepType: '' }),
+	event(
+		'sequence_journey_ended',
+		'Sequence Journey Ended',
+		'The lead finished the sequence',
+		'sequence',
+	),
+	event(
+		'sequence_step_completed',
+		'Sequence Step Completed',
+		'A sequence step was completed for the lead',
+		'sequence',
+		{ stepType: '' },
+	),
+	event('sequence_step_error', 'Sequence Step Error', 'A sequence step failed', 'sequence', {
+		stepType: '',
+	}),
+	event(
+		'sequence_step_skipped',
+		'Sequence Step Skipped',
+		'A sequence step was skipped for the lead',
+		'sequence',
+		{ stepType: '' },
+	),
+	event('unknown', 'Unknown Event', 'Campaign log entry of an unknown type', 'sequence', {
+		webhook: false,
+	}),
+];
+
+const EVENTS_BY_VALUE = new Map(EVENT_CATALOG.map((entry) => [entry.value, entry]));
+
+export function getCatalogEvent(value: string | undefined): ILeadspickerEvent | undefined {
+	return value === undefined ? undefined : EVENTS_BY_VALUE.get(value);
+}
+
+const byName = (a: INodePropertyOptions, b: INodePropertyOptions) => a.name.localeCompare(b.name);
+
+/** Event types of the campaign log, used by Get Campaign Log and the polling trigger. */
+export const TIMELINE_EVENT_TYPE_OPTIONS: INodePropertyOptions[] = EVENT_CATALOG.filter(
+	(entry) => entry.timeline,
+)
+	.map(({ name, value }) => ({ name, value }))
+	.sort(byName);
+
+/** Events a webhook can subscribe to, used by the trigger and the Webhook resource. */
+export const WEBHOOK_FEATURE_OPTIONS: INodePropertyOptions[] = EVENT_CATALOG.filter(
+	(entry) => entry.webhook,
+)
+	.map(({ name, value, description }) => ({ name, value, description }))
+	.sort(byName);
+
+const SAMPLE_CAMPAIGN = { id: 1042, name: 'Q3 SaaS Founders' };
+const SAMPLE_PERSON = {
+	id: 58213,
+	project_id: SAMPLE_CAMPAIGN.id,
+	person_data: {
+		first_name: 'Jane',
+		last_name: 'Doe',
+		full_name: 'Jane Doe',
+		email: 'jane.doe@acme.com',
+		position: 'Head of Growth',
+		company_name: 'Acme',
+		company_website: 'https://acme.com',
+		linkedin: 'https://www.linkedin.com/in/jane-doe',
+		country: 'Czechia',
+	},
+	custom_fields: { segment: 'SaaS' },
+};
+const SAMPLE_ACCOUNT = { email: 'sales@yourcompany.com', name: 'Sales Team' };
+const SAMPLE_LINKEDIN_ACCOUNT = { identifier: 'john-seller', name: 'John Seller' };
+const SAMPLE_TIMESTAMP = '2024-05-14T09:30:00Z';
+
+/**
+ * Realistic payload for an event, shown on manual test runs so the output can
+ * be mapped before real events arrive.
+ */
+export function getSamplePayload(value: string): IDataObject {
+	const entry = getCatalogEvent(value);
+	if (!entry) {
+		return {};
+	}
+	const isLinkedin = entry.stepType !== undefined && entry.stepType !== '';
+	const base: IDataObject = {
+		event_id: `sample-${entry.value}`,
+		feature: entry.value,
+		created: SAMPLE_TIMESTAMP,
+		project: { ...SAMPLE_CAMPAIGN },
+	};
+	switch (entry.kind) {
+		case 'account':
+			return { ...base, account: { ...SAMPLE_LINKEDIN_ACCOUNT }, reason: 'Session expired' };
+		case 'campaign':
+			return base;
+		case 'lead':
+			return { ...base, persons: [{ ...SAMPLE_PERSON }] };
+		case 'bounce':
+			return {
+				...base,
+				person: { ...SAMPLE_PERSON },
+				account: { ...SAMPLE_ACCOUNT },
+				step_type: entry.stepType,
+				message: { id: 77120, subject: 'Quick question about Acme', sent_at: SAMPLE_TIMESTAMP },
+				bounce_reason: '550 5.1.1 The email account that you tried to reach does not exist',
+			};
+		case 'message':
+		case 'reply':
+			return {
+				...base,
+				person: { ...SAMPLE_PERSON },
+				account: isLinkedin ? { ...SAMPLE_LINKEDIN_ACCOUNT } : { ...SAMPLE_ACCOUNT },
+				step_type: entry.stepType,
+				...(entry.kind === 'reply' ? { sentiment: 'positive' } : {}),
+				message: {
+					id: 77121,
+					thread_id: 'thread-4411',
+					subject: isLinkedin ? null : 'Quick question about Acme',
+					text:
+						entry.kind === 'reply'
+							? 'Hi John, thanks for reaching out. Happy to chat next week.'
+							: 'Hi Jane, I noticed Acme is growing its sales team...',
+					sent_at: SAMPLE_TIMESTAMP,
+				},
+			};
+		case 'sequence':
+		default:
+			return {
+				...base,
+				person: { ...SAMPLE_PERSON },
+				step_type: entry.stepType ?? '',
+				...(entry.value.endsWith('_error') ? { reason: 'Sending limit reached' } : {}),
+			};
+	}
+}
@@ -1,4 +1,4 @@
-import { sleep } from 'n8n-workflow';
+import { NodeApiError, NodeOperationError, sleep } from 'n8n-workflow';
 import type {
 	IExecuteFunctions,
 	IHookFunctions,
@@ -6,88 +6,1026 @@ import type {
 	IHttpRequestMethods,
 	IHttpRequestOptions,
 	ILoadOptionsFunctions,
+	INode,
+	IPollFunctions,
 	IWebhookFunctions,
+	JsonObject,
 } from 'n8n-workflow';
 
-const RATE_LIMIT_THRESHOLD = 10;
-const THROTTLE_DELAY_MS = 1000;
-const RETRY_DELAY_MS = 10_000;
-const MAX_RETRIES = 6;
+import {
+	consumeDailyQuota,
+	getRateLimitKey,
+	getRateLimitState,
+	isDailyQuotaExhausted,
+	recordRateLimitHeaders,
+	reserveRequestSlot,
+	toNumber,
+} from './RateLimiter';
+import { MANUAL_ID_OPTION } from './descriptions/Shared';
+import type { ResponseHeaders } from './RateLimiter';
 
-function toNumber(headerValue: string | string[] | undefined) {
-	if (Array.isArray(headerValue)) {
-		return toNumber(headerValue[0]);
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUS_CODES = new Set([500, 502, 503, 504]);
+// Failures that happen before the request reaches Leadspicker, so any method can be resent.
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'EAI_AGAIN']);
+// Failures where the request may already have been processed.
+const TRANSIENT_ERROR_CODES = new Set([
+	'ECONNRESET',
+	'ECONNABORTED',
+	'EPIPE',
+	'ESOCKETTIMEDOUT',
+	'ETIMEDOUT',
+]);
+
+export interface IRetryPolicy {
+	maxRetries: number;
+	initialDelayMs: number;
+	maxDelayMs: number;
+	retryOnServerErrors: boolean;
+	retryNonIdempotent: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: IRetryPolicy = {
+	maxRetries: 5,
+	initialDelayMs: 1000,
+	maxDelayMs: 60_000,
+	retryOnServerErrors: true,
+	retryNonIdempotent: false,
+};
+
+export type DailyQuotaBehavior = 'ignore' | 'stop' | 'outputUnprocessed';
+
+export const DEFAULT_DOMAIN = 'https://app.leadspicker.com';
+export const DEFAULT_API_PREFIX = '/app/sb/api';
+
+function getErrorField(error: unknown, path: string[]): unknown {
+	let current: unknown = error;
+	for (const key of path) {
+		if (typeof current !== 'object' || current === null || !(key in current)) {
+			return undefined;
+		}
+		current = (current as Record<string, unknown>)[key];
 	}
-	const parsed = Number(headerValue);
-	return Number.isNaN(parsed) ? undefined : parsed;
+	return current;
 }
 
-function shouldThrottle(headers: Record<string, string | string[] | undefined>) {
-	const remainingMinute = toNumber(headers['x-ratelimit-remaining-minute']);
-	const remainingDay = toNumber(headers['x-ratelimit-remaining-day']);
-	const throttle =
-		(remainingMinute !== undefined && remainingMinute < RATE_LIMIT_THRESHOLD) ||
-		(remainingDay !== undefined && remainingDay < RATE_LIMIT_THRESHOLD);
-	return throttle;
+export function getStatusCode(error: unknown): number | undefined {
+	const candidates = [
+		getErrorField(error, ['httpCode']),
+		getErrorField(error, ['statusCode']),
+		getErrorField(error, ['response', 'status']),
+		getErrorField(error, ['cause', 'response', 'status']),
+	];
+	for (const candidate of candidates) {
+		const parsed =
+			typeof candidate === 'number'
+				? candidate
+				: typeof candidate === 'string' && /^\d{3}$/.test(candidate.trim())
+					? Number(candidate)
+					: undefined;
+		if (parsed !== undefined && Number.isInteger(parsed)) {
+			return parsed;
+		}
+	}
+	return undefined;
 }
 
-function getStatusCode(error: unknown) {
-	if (typeof error === 'object' && error !== null && 'httpCode' in error) {
-		const { httpCode } = error as { httpCode?: unknown };
-		if (typeof httpCode === 'string') {
-			return httpCode;
+function getErrorCode(error: unknown): string | undefined {
+	const candidates = [
+		getErrorField(error, ['code']),
+		getErrorField(error, ['cause', 'code']),
+		getErrorField(error, ['httpCode']),
+	];
+	for (const candidate of candidates) {
+		if (typeof candidate === 'string' && /^E[A-Z_]+$/.test(candidate)) {
+			return candidate;
 		}
 	}
 	return undefined;
 }
 
+function getErrorHeaders(error: unknown): ResponseHeaders {
+	const candidates = [
+		getErrorField(error, ['response', 'headers']),
+		getErrorField(error, ['cause', 'response', 'headers']),
+		getErrorField(error, ['errorResponse', 'response', 'headers']),
+	];
+	const headers = candidates.find((candidate) => isPlainObject(candidate));
+	return (headers ?? {}) as ResponseHeaders;
+}
+
+/**
+ * Parses a Retry-After header given either as delay-seconds or as an HTTP date.
+ */
+export function parseRetryAfter(
+	headerValue: string | string[] | undefined,
+	now = Date.now(),
+): number | undefined {
+	const value = Array.isArray(headerValue) ? headerValue[0] : headerValue;
+	if (typeof value !== 'string' || value.trim() === '') {
+		return undefined;
+	}
+	const seconds = Number(value.trim());
+	if (!Number.isNaN(seconds)) {
+		return Math.max(seconds, 0) * 1000;
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and the full
+ * capped exponential delay for the given attempt.
+ */
+export function computeBackoffDelay(
+	attempt: number,
+	policy: IRetryPolicy,
+	random: () => number = Math.random,
+): number {
+	const exponential = Math.min(policy.initialDelayMs * 2 ** attempt, policy.maxDelayMs);
+	return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Decides whether a failed request should be retried and how long to wait first.
+ * Returns undefined when the error is not retryable under the given policy.
+ */
+export function getRetryDelay(
+	error: unknown,
+	method: IHttpRequestMethods,
+	attempt: number,
+	policy: IRetryPolicy,
+	random: () => number = Math.random,
+): number | undefined {
+	if (attempt >= policy.maxRetries) {
+		return undefined;
+	}
+	const idempotent = IDEMPOTENT_METHODS.has(method.toUpperCase());
+	const statusCode = getStatusCode(error);
+	const headers = getErrorHeaders(error);
+	const retryAfter = parseRetryAfter(headers['retry-after']);
+
+	if (statusCode === 429) {
+		// A 429 means the request was rejected without being processed, so any method is safe.
+		if (retryAfter === undefined && toNumber(headers['x-ratelimit-remaining-day']) === 0) {
+			return undefined;
+		}
+	} else if (statusCode !== undefined) {
+		if (!policy.retryOnServerErrors || !RETRYABLE_STATUS_CODES.has(statusCode)) {
+			return undefined;
+		}
+		if (!idempotent && !policy.retryNonIdempotent) {
+			return undefined;
+		}
+	} else {
+		const code = getErrorCode(error);
+		if (code === undefined || !policy.retryOnServerErrors) {
+			return undefined;
+		}
+		if (!CONNECT_ERROR_CODES.has(code)) {
+			if (!TRANSIENT_ERROR_CODES.has(code) || (!idempotent && !policy.retryNonIdempotent)) {
+				return undefined;
+			}
+		}
+	}
+
+	if (retryAfter !== undefined) {
+		return Math.min(retryAfter, policy.maxDelayMs);
+	}
+	const backoff = computeBackoffDelay(attempt, policy, random);
+	if (statusCode === 429 && toNumber(headers['x-ratelimit-remaining-minute']) === 0) {
+		return Math.min(Math.max(backoff, RATE_LIMIT_WINDOW_MS), policy.maxDelayMs);
+	}
+	return backoff;
+}
+
+export function resolveRetryPolicy(options: IDataObject = {}): IRetryPolicy {
+	const numberOr = (value: unknown, fallback: number) =>
+		typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback;
+	const booleanOr = (value: unknown, fallback: boolean) =>
+		typeof value === 'boolean' ? value : fallback;
+	const initialDelayMs = numberOr(options.initialRetryDelay, DEFAULT_RETRY_POLICY.initialDelayMs);
+	return {
+		maxRetries: Math.floor(numberOr(options.maxRetries, DEFAULT_RETRY_POLICY.maxRetries)),
+		initialDelayMs,
+		maxDelayMs: Math.max(
+			numberOr(options.maxRetryDelay, DEFAULT_RETRY_POLICY.maxDelayMs),
+			initialDelayMs,
+		),
+		retryOnServerErrors: booleanOr(
+			options.retryOnServerErrors,
+			DEFAULT_RETRY_POLICY.retryOnServerErrors,
+		),
+		retryNonIdempotent: booleanOr(
+			options.retryNonIdempotent,
+			DEFAULT_RETRY_POLICY.retryNonIdempotent,
+		),
+	};
+}
+
+function getRequestOptions(
+	this:
+		| IExecuteFunctions
+		| ILoadOptionsFunctions
+		| IHookFunctions
+		| IPollFunctions
+		| IWebhookFunctions,
+): IDataObject {
+	// Only the action node exposes request options; triggers and option loaders use the defaults.
+	if (!('getInputData' in this)) {
+		return {};
+	}
+	const options = this.getNodeParameter('requestOptions', 0, {}) as IDataObject;
+	return isPlainObject(options) ? options : {};
+}
+
+export function getDailyQuotaBehavior(options: IDataObject = {}): DailyQuotaBehavior {
+	const behavior = options.onDailyQuotaExhausted;
+	return behavior === 'stop' || behavior === 'outputUnprocessed' ? behavior : 'ignore';
+}
+
+export function isDailyQuotaExhaustedError(error: unknown): boolean {
+	const context = (error as { context?: IDataObject })?.context;
+	return context?.leadspickerCode === 'daily_quota_exhausted';
+}
+
+function trimSlashes(value: string) {
+	return value.replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Builds the API base URL from the credential's domain and API prefix.
+ * Returns undefined when the domain cannot be turned into an http(s) URL.
+ */
+export function buildApiBaseUrl(domain: unknown, apiPrefix?: unknown): string | undefined {
+	let rawDomain = typeof domain === 'string' ? domain.trim() : '';
+	if (rawDomain === '') {
+		rawDomain = DEFAULT_DOMAIN;
+	}
+	if (!/^[a-z][a-z\d+\-.]*:\/\//i.test(rawDomain)) {
+		rawDomain = `https://${rawDomain}`;
+	}
+
+	let parsed: URL;
+	try {
+		parsed = new URL(rawDomain);
+	} catch {
+		return undefined;
+	}
+	if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+		return undefined;
+	}
+	if (!parsed.hostname || /\s/.test(rawDomain)) {
+		return undefined;
+	}
+	if (
+		parsed.search !== '' ||
+		parsed.hash !== '' ||
+		parsed.username !== '' ||
+		parsed.password !== ''
+	) {
+		return undefined;
+	}
+
+	const prefix =
+		typeof apiPrefix === 'string' ? trimSlashes(apiPrefix.trim()) : trimSlashes(DEFAULT_API_PREFIX);
+	const segments = [trimSlashes(parsed.pathname), prefix].filter((segment) => segment !== '');
+	return segments.length ? `${parsed.origin}/${segments.join('/')}` : parsed.origin;
+}
+
+function getApiBaseUrl(
+	this:
+		| IExecuteFunctions
+		| ILoadOptionsFunctions
+		| IHookFunctions
+		| IPollFunctions
+		| IWebhookFunctions,
+	credentials: IDataObject,
+) {
+	const baseUrl = buildApiBaseUrl(credentials?.domain, credentials?.apiPrefix);
+	if (baseUrl === undefined) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`The Leadspicker credential domain "${String(credentials?.domain ?? '')}" is not a valid URL.`,
+			{ description: 'Use a domain such as https://app.leadspicker.com.' },
+		);
+	}
+	return baseUrl;
+}
+
+export type LeadspickerErrorCode =
+	| 'bad_request'
+	| 'unauthorized'
+	| 'forbidden'
+	| 'not_found'
+	| 'conflict'
+	| 'validation_failed'
+	| 'rate_limited'
+	| 'server_error'
+	| 'network_error'
+	| 'daily_quota_exhausted'
+	| 'operation_error'
+	| 'unknown_error';
+
+export interface IValidationError extends IDataObject {
+	field: string | null;
+	message: string;
+}
+
+function getErrorCodeForStatus(
+	statusCode: number | undefined,
+	networkCode?: string,
+): LeadspickerErrorCode {
+	if (statusCode === undefined) {
+		return networkCode !== undefined ? 'network_error' : 'unknown_error';
+	}
+	const byStatus: Record<number, LeadspickerErrorCode> = {
+		400: 'bad_request',
+		401: 'unauthorized',
+		403: 'forbidden',
+		404: 'not_found',
+		409: 'conflict',
+		422: 'validation_failed',
+		429: 'rate_limited',
+	};
+	if (byStatus[statusCode]) {
+		return byStatus[statusCode];
+	}
+	return statusCode >= 500 ? 'server_error' : 'unknown_error';
+}
+
+function getErrorBody(error: unknown): unknown {
+	const candidates = [
+		getErrorField(error, ['cause', 'response', 'data']),
+		getErrorField(error, ['response', 'data']),
+		getErrorField(error, ['response', 'body']),
+		getErrorField(error, ['errorResponse', 'response', 'data']),
+		getErrorField(error, ['error']),
+	];
+	return candidates.find((candidate) => candidate !== undefined && candidate !== null);
+}
+
+/**
+ * Collects field-level messages from a Leadspicker 400/422 payload. Handles
+ * `{ detail: "..." }`, `{ detail: [{ loc, msg }] }` and `{ field: ["..."] }` shapes.
+ */
+export function extractValidationErrors(payload: unknown): IValidationError[] {
+	if (typeof payload === 'string') {
+		return payload.trim() !== '' ? [{ field: null, message: payload.trim() }] : [];
+	}
+	if (!isPlainObject(payload)) {
+		return [];
+	}
+	const detail = payload.detail;
+	if (typeof detail === 'string') {
+		return [{ field: null, message: detail }];
+	}
+	if (Array.isArray(detail)) {
+		return detail
+			.filter((entry): entry is IDataObject => isPlainObject(entry))
+			.map((entry) => {
+				const location = Array.isArray(entry.loc)
+					? (entry.loc as unknown[]).filter((part) => part !== 'body' && part !== 'query').join('.')
+					: '';
+				const message = entry.msg ?? entry.message;
+				return {
+					field: location !== '' ? location : null,
+					message: typeof message === 'string' ? message : JSON.stringify(entry),
+				};
+			});
+	}
+	const errors: IValidationError[] = [];
+	for (const [field, value] of Object.entries(payload)) {
+		const messages = Array.isArray(value) ? value : [value];
+		for (const message of messages) {
+			if (typeof message === 'string' && message.trim() !== '') {
+				errors.push({ field: field === 'non_field_errors' ? null : field, message });
+			}
+		}
+	}
+	return errors;
+}
+
+function describeEndpointResource(endpoint: string) {
+	if (endpoint.startsWith('/projects')) return 'campaign';
+	if (endpoint.startsWith('/persons')) return 'lead';
+	if (endpoint.startsWith('/webhooks')) return 'webhook';
+	return 'resource';
+}
+
+/**
+ * Wraps a failed Leadspicker request in a NodeApiError with a readable message,
+ * the HTTP status and a stable `leadspickerCode` in the error context.
+ */
+export function createLeadspickerApiError(
+	node: INode,
+	error: unknown,
+	endpoint = '',
+): NodeApiError {
+	const statusCode = getStatusCode(error);
+	const networkCode = getErrorCode(error);
+	const code = getErrorCodeForStatus(statusCode, networkCode);
+	const validationErrors =
+		statusCode === 400 || statusCode === 422 ? extractValidationErrors(getErrorBody(error)) : [];
+	const validationSummary = validationErrors
+		.map((entry) => (entry.field ? `${entry.field}: ${entry.message}` : entry.message))
+		.join('; ');
+	const resource = describeEndpointResource(endpoint);
+	const originalMessage =
+		typeof (error as { message?: unknown })?.message === 'string'
+			? (error as { message: string }).message
+			: 'Unknown error';
+
+	let message: string;
+	let description: string;
+	switch (code) {
+		case 'bad_request':
+			message = 'Leadspicker rejected the request';
+			description = validationSummary || 'Check the values submitted to Leadspicker.';
+			break;
+		case 'validation_failed':
+			message = 'Leadspicker could not validate the request';
+			description = validationSummary || 'One or more fields have an invalid value.';
+			break;
+		case 'unauthorized':
+			message = 'Leadspicker rejected the API token';
+			description =
+				'Check that the token in the Leadspicker credential is correct and has not been revoked.';
+			break;
+		case 'forbidden':
+			message = 'The Leadspicker account is not allowed to perform this action';
+			description =
+				'Your plan may not include this feature, or one of its limits (campaigns, robots, accounts) has been reached.';
+			break;
+		case 'not_found':
+			message = `The requested ${resource} was not found`;
+			description = `Check that the ${resource} ID is correct and belongs to the account of the credential.`;
+			break;
+		case 'conflict':
+			message = `The ${resource} conflicts with existing data`;
+			description = validationSummary || originalMessage;
+			break;
+		case 'rate_limited':
+			message = 'Leadspicker rate limit exceeded';
+			description =
+				'Too many requests were sent. Wait before retrying or process fewer items per execution.';
+			break;
+		case 'server_error':
+			message = 'Leadspicker is temporarily unavailable';
+			description = `The Leadspicker API responded with HTTP ${statusCode}. Try again later.`;
+			break;
+		case 'network_error':
+			message = 'Could not reach Leadspicker';
+			description = `The connection failed with ${networkCode}. Check the credential domain and your network.`;
+			break;
+		default:
+			message = originalMessage;
+			description = '';
+	}
+
+	const apiError = new NodeApiError(
+		node,
+		{
+			message: originalMessage,
+			httpCode: statusCode !== undefined ? statusCode.toString() : null,
+			body: (getErrorBody(error) ?? null) as JsonObject,
+		} as JsonObject,
+		{
+			message,
+			description: description || undefined,
+			httpCode: statusCode !== undefined ? statusCode.toString() : undefined,
+		},
+	);
+	apiError.context.leadspickerCode = code;
+	if (validationErrors.length) {
+		apiError.context.validationErrors = validationErrors;
+	}
+	return apiError;
+}
+
+/**
+ * Builds the item returned for a failed item when "Continue On Fail" is enabled.
+ */
+export function getErrorOutput(error: unknown): IDataObject {
+	const context = (error as { context?: IDataObject })?.context ?? {};
+	const message =
+		typeof (error as { message?: unknown })?.message === 'string'
+			? (error as { message: string }).message
+			: String(error);
+	const code =
+		typeof context.leadspickerCode === 'string'
+			? context.leadspickerCode
+			: error instanceof NodeOperationError
+				? 'operation_error'
+				: 'unknown_error';
+	const output: IDataObject = {
+		error: message,
+		code,
+		httpCode: getStatusCode(error) ?? null,
+	};
+	const description = (error as { description?: unknown })?.description;
+	if (typeof description === 'string' && description !== '') {
+		output.description = description;
+	}
+	if (Array.isArray(context.validationErrors)) {
+		output.validationErrors = context.validationErrors;
+	}
+	return output;
+}
+
 export async function leadspickerApiRequest(
-	this: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions | IWebhookFunctions,
+	this:
+		| IExecuteFunctions
+		| ILoadOptionsFunctions
+		| IHookFunctions
+		| IPollFunctions
+		| IWebhookFunctions,
 	method: IHttpRequestMethods,
 	endpoint: string,
 	body: IDataObject = {},
 	query: IDataObject = {},
 ) {
+	const credentials = await this.getCredentials('leadspickerApi');
+	const baseUrl = getApiBaseUrl.call(this, credentials);
 	const options: IHttpRequestOptions = {
 		headers: {},
 		method,
-		url: `https://app.leadspicker.com/app/sb/api${endpoint}`,
-		//url: `http://localhost:8000/app/sb/api${endpoint}`,
-		//url: `http://host.docker.internal:8000/app/sb/api${endpoint}`,
+		url: `${baseUrl}${endpoint}`,
 		body,
 		json: true,
 		qs: query,
 		returnFullResponse: true,
 	};
 
-	for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+	const requestOptions = getRequestOptions.call(this);
+	const retryPolicy = resolveRetryPolicy(requestOptions);
+	const rateLimit = getRateLimitState(getRateLimitKey(baseUrl, credentials.token));
+
+	if (
+		getDailyQuotaBehavior(requestOptions) !== 'ignore' &&
+		isDailyQuotaExhausted(rateLimit, Number(requestOptions.dailyQuotaReserve) || 0)
+	) {
+		const error = new NodeOperationError(
+			this.getNode(),
+			'The daily Leadspicker API quota has been used up',
+			{
+				description: `Only ${rateLimit.remainingDay} requests are left today, which is within the configured reserve. The remaining items were not processed.`,
+			},
+		);
+		error.context.leadspickerCode = 'daily_quota_exhausted';
+		throw error;
+	}
+
+	for (let attempt = 0; ; attempt++) {
+		const wait = reserveRequestSlot(rateLimit);
+		consumeDailyQuota(rateLimit);
+		if (wait > 0) {
+			await sleep(wait);
+		}
 		try {
 			const response = await this.helpers.httpRequestWithAuthentication.call(
 				this,
 				'leadspickerApi',
 				options,
 			);
-			if (
-				shouldThrottle((response.headers ?? {}) as Record<string, string | string[] | undefined>)
-			) {
-				await sleep(THROTTLE_DELAY_MS);
-			}
+			recordRateLimitHeaders(rateLimit, (response.headers ?? {}) as ResponseHeaders);
 
 			return response.body;
 		} catch (error) {
-			const statusCode = getStatusCode(error);
-			if (statusCode === '429' && attempt < MAX_RETRIES - 1) {
-				await sleep(RETRY_DELAY_MS);
-				continue;
+			recordRateLimitHeaders(rateLimit, getErrorHeaders(error));
+			const delay = getRetryDelay(error, method, attempt, retryPolicy);
+			if (delay === undefined) {
+				throw createLeadspickerApiError(this.getNode(), error, endpoint);
 			}
-			throw error;
+			await sleep(delay);
 		}
 	}
+}
+
+export type PaginationStrategy = 'page' | 'offset' | 'cursor';
 
-	throw new Error('Exceeded retry attempts after repeated rate limit responses.');
+export interface IPaginationOptions {
+	strategy: PaginationStrategy;
+	pageSize?: number;
+	/** Stop once this many items have been collected. */
+	limit?: number;
+	/** Loop guard against endpoints that never signal the last page. */
+	maxPages?: number;
+	/** Response key holding the items; detected automatically when omitted. */
+	itemsKey?: string;
+	pageParam?: string;
+	pageSizeParam?: string;
+	offsetParam?: string;
+	limitParam?: string;
+	cursorParam?: string;
+	cursorResponseKey?: string;
+	/** Called for each item in API order; returning true drops the item and ends pagination. */
+	stopWhen?: (item: IDataObject) => boolean;
+}
+
+export const DEFAULT_PAGE_SIZE = 1000;
+const DEFAULT_MAX_PAGES = 1000;
+
+/**
+ * Serializes a query object, repeating the key for array values
+ * (`event_types=a&event_types=b`) as the Leadspicker API expects.
+ */
+export function buildQueryString(query: IDataObject): string {
+	const parts: string[] = [];
+	for (const [key, value] of Object.entries(query)) {
+		const values = Array.isArray(value) ? value : [value];
+		for (const entry of values) {
+			if (entry === undefined || entry === null) continue;
+			parts.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(entry))}`);
+		}
+	}
+	return parts.join('&');
+}
+
+export function extractListItems(response: unknown, itemsKey?: string): IDataObject[] {
+	const normalize = (list: unknown[]) =>
+		list.filter((entry): entry is IDataObject => isPlainObject(entry));
+	if (Array.isArray(response)) {
+		return normalize(response);
+	}
+	if (!isPlainObject(response)) {
+		return [];
+	}
+	const keys = itemsKey ? [itemsKey] : ['items', 'results', 'data'];
+	for (const key of keys) {
+		if (Array.isArray(response[key])) {
+			return normalize(response[key] as unknown[]);
+		}
+	}
+	return [];
+}
+
+function getNextCursor(response: unknown, cursorResponseKey: string): string | undefined {
+	if (!isPlainObject(response)) {
+		return undefined;
+	}
+	const cursor = response[cursorResponseKey];
+	if (typeof cursor === 'number') {
+		return cursor.toString();
+	}
+	return typeof cursor === 'string' && cursor !== '' ? cursor : undefined;
+}
+
+/**
+ * Fetches every page of a list endpoint using page/page_size, limit/offset or cursor
+ * pagination. Stops on an empty or short page, when the reported `count` is reached,
+ * when `next` is null, when the cursor runs out or repeats, or once `limit` items are collected.
+ */
+export async function leadspickerApiRequestAllItems(
+	this:
+		| IExecuteFunctions
+		| ILoadOptionsFunctions
+		| IHookFunctions
+		| IPollFunctions
+		| IWebhookFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body: IDataObject = {},
+	query: IDataObject = {},
+	pagination: IPaginationOptions = { strategy: 'page' },
+): Promise<IDataObject[]> {
+	const {
+		strategy,
+		pageSize = DEFAULT_PAGE_SIZE,
+		limit,
+		maxPages = DEFAULT_MAX_PAGES,
+		itemsKey,
+		pageParam = 'page',
+		pageSizeParam = 'page_size',
+		offsetParam = 'offset',
+		limitParam = 'limit',
+		cursorParam = 'cursor',
+		cursorResponseKey = 'next_cursor',
+		stopWhen,
+	} = pagination;
+	const sendInBody = method !== 'GET' && method !== 'DELETE';
+	const results: IDataObject[] = [];
+	const seenCursors = new Set<string>();
+	let cursor: string | undefined;
+
+	if (limit !== undefined && limit <= 0) {
+		return results;
+	}
+
+	for (let page = 0; page < maxPages; page++) {
+		const pageQuery: IDataObject = { ...query };
+		const pageBody: IDataObject = { ...body };
+		if (strategy === 'page') {
+			pageQuery[pageParam] = page + 1;
+			pageQuery[pageSizeParam] = pageSize;
+		} else if (strategy === 'offset') {
+			pageQuery[limitParam] = pageSize;
+			// Offset by what was actually received in case the API caps the page size.
+			pageQuery[offsetParam] = results.length;
+		} else if (cursor !== undefined) {
+			if (sendInBody) {
+				pageBody[cursorParam] = cursor;
+			} else {
+				pageQuery[cursorParam] = cursor;
+			}
+		}
+
+		const queryString = buildQueryString(pageQuery);
+		const separator = endpoint.includes('?') ? '&' : '?';
+		const path = queryString !== '' ? `${endpoint}${separator}${queryString}` : endpoint;
+		const response = await leadspickerApiRequest.call(
+			this,
+			method,
+			path,
+			sendInBody ? pageBody : {},
+		);
+
+		const chunk = extractListItems(response, itemsKey);
+		if (!chunk.length) break;
+		const stopIndex = stopWhen ? chunk.findIndex((item) => stopWhen(item)) : -1;
+		results.push(...(stopIndex === -1 ? chunk : chunk.slice(0, stopIndex)));
+
+		if (limit !== undefined && results.length >= limit) {
+			return results.slice(0, limit);
+		}
+		if (stopIndex !== -1) break;
+
+		if (strategy === 'cursor') {
+			cursor = getNextCursor(response, cursorResponseKey);
+			if (cursor === undefined || seenCursors.has(cursor)) break;
+			seenCursors.add(cursor);
+			continue;
+		}
+
+		const responseObject = isPlainObject(response) ? response : {};
+		if (typeof responseObject.count === 'number') {
+			if (results.length >= responseObject.count) break;
+		} else if ('next' in responseObject) {
+			if (!responseObject.next) break;
+		} else if (chunk.length < pageSize) {
+			break;
+		}
+	}
+
+	return results;
+}
+
+export type EventSortOrder = 'newestFirst' | 'oldestFirst';
+
+export interface ICampaignEventsOptions {
+	sinceEventId?: number;
+	sinceTimestamp?: string;
+	sort?: EventSortOrder;
+	limit?: number;
+	pageSize?: number;
+}
+
+const EVENT_TIMESTAMP_KEYS = ['created', 'created_at', 'timestamp', 'date', 'received_at'];
+
+export function getEventId(event: IDataObject): number | undefined {
+	const id = typeof event.id === 'string' ? Number(event.id) : event.id;
+	return typeof id === 'number' && Number.isFinite(id) ? id : undefined;
+}
+
+export function getEventTimestamp(event: IDataObject): number | undefined {
+	for (const key of EVENT_TIMESTAMP_KEYS) {
+		const value = event[key];
+		if (typeof value === 'string' || typeof value === 'number') {
+			const parsed = typeof value === 'number' ? value : Date.parse(value);
+			if (!Number.isNaN(parsed)) {
+				return parsed;
+			}
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Whether an event is newer than the given cursor. Events without an ID or
+ * timestamp cannot be compared and are treated as new.
+ */
+export function isEventAfter(event: IDataObject, sinceEventId?: number, sinceTime?: number) {
+	const id = getEventId(event);
+	if (sinceEventId !== undefined && id !== undefined && id <= sinceEventId) {
+		return false;
+	}
+	const timestamp = getEventTimestamp(event);
+	if (sinceTime !== undefined && timestamp !== undefined && timestamp <= sinceTime) {
+		return false;
+	}
+	return true;
+}
+
+export function sortEvents(events: IDataObject[], order: EventSortOrder): IDataObject[] {
+	const direction = order === 'oldestFirst' ? 1 : -1;
+	return [...events].sort((a, b) => {
+		const byTime = (getEventTimestamp(a) ?? 0) - (getEventTimestamp(b) ?? 0);
+		if (byTime !== 0) return byTime * direction;
+		return ((getEventId(a) ?? 0) - (getEventId(b) ?? 0)) * direction;
+	});
+}
+
+/**
+ * Fetches the campaign timeline from `/projects/{id}/events`. The endpoint lists
+ * events newest first, so paging stops at the first event at or before the
+ * since-cursor. Oldest-first results are sorted locally before the limit is applied.
+ */
+export async function getCampaignEvents(
+	this:
+		| IExecuteFunctions
+		| ILoadOptionsFunctions
+		| IHookFunctions
+		| IPollFunctions
+		| IWebhookFunctions,
+	campaignId: number,
+	query: IDataObject = {},
+	options: ICampaignEventsOptions = {},
+): Promise<IDataObject[]> {
+	const { sinceEventId, sinceTimestamp, sort = 'newestFirst', limit, pageSize } = options;
+	const eventsQuery: IDataObject = { ...query };
+	let sinceTime: number | undefined;
+	if (typeof sinceTimestamp === 'string' && sinceTimestamp.trim() !== '') {
+		sinceTime = Date.parse(sinceTimestamp);
+		if (Number.isNaN(sinceTime)) {
+			sinceTime = undefined;
+		} else if (
+			typeof eventsQuery.start_date !== 'string' ||
+			Date.parse(eventsQuery.start_date) < sinceTime
+		) {
+			eventsQuery.start_date = sinceTimestamp.trim();
+		}
+	}
+	const hasCursor = sinceEventId !== undefined || sinceTime !== undefined;
+
+	const events = await leadspickerApiRequestAllItems.call(
+		this,
+		'GET',
+		`/projects/${campaignId}/events`,
+		{},
+		eventsQuery,
+		{
+			strategy: 'page',
+			pageSize: Math.min(
+				pageSize ?? DEFAULT_PAGE_SIZE,
+				sort === 'newestFirst' && limit ? limit : Infinity,
+			),
+			limit: sort === 'newestFirst' ? limit : undefined,
+			stopWhen: hasCursor ? (event) => !isEventAfter(event, sinceEventId, sinceTime) : undefined,
+		},
+	);
+
+	const newEvents = hasCursor
+		? events.filter((event) => isEventAfter(event, sinceEventId, sinceTime))
+		: events;
+	const sorted = sortEvents(newEvents, sort);
+	return limit !== undefined ? sorted.slice(0, limit) : sorted;
+}
+
+interface IEmailAccountItem {
+	address: string;
+}
+interface IEmailAccountsFilter {
+	email: IEmailAccountItem[];
+}
+interface ICampaignItem {
+	id: number | string;
+	idManual?: number;
+}
+interface ICampaignsFilter {
+	project: ICampaignItem[];
+}
+interface ISentimentItem {
+	type: string;
+}
+interface ISentimentFilter {
+	sentiment_value: ISentimentItem[];
+}
+
+/**
+ * Converts the reply filter collection (email accounts, campaigns, sentiment)
+ * into the repeated query parameters expected by `/inbound-messages`.
+ */
+export function buildReplyQuery(filters: IDataObject = {}): IDataObject {
+	const query: IDataObject = {};
+
+	const emailAccountsFilter = filters.email_accounts as IEmailAccountsFilter;
+	if (emailAccountsFilter?.email?.length) {
+		query.email_accounts = emailAccountsFilter.email
+			.map((item) => item.address)
+			.filter((address) => address && address.trim() !== '');
+	}
+
+	const campaignsFilter = filters.projects as ICampaignsFilter;
+	if (campaignsFilter?.project?.length) {
+		query.projects = campaignsFilter.project
+			.map((item) => {
+				const value = item.id === MANUAL_ID_OPTION ? item.idManual : item.id;
+				const id = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+				return typeof id === 'number' && Number.isFinite(id) ? id : undefined;
+			})
+			.filter((id): id is number => id !== undefined);
+	}
+
+	const sentimentFilter = filters.sentiment as ISentimentFilter;
+	if (sentimentFilter?.sentiment_value?.length) {
+		query.sentiment = sentimentFilter.sentiment_value
+			.map((item) => item.type)
+			.filter((type) => type && type.trim() !== '');
+	}
+
+	return query;
+}
+
+export type CustomFieldType = 'string' | 'number' | 'boolean';
+
+export interface ICustomFieldDefinition {
+	key: string;
+	type: CustomFieldType;
+}
+
+function toCustomFieldType(value: unknown): CustomFieldType {
+	if (typeof value === 'number') return 'number';
+	if (typeof value === 'boolean') return 'boolean';
+	if (value === 'number' || value === 'integer' || value === 'float') return 'number';
+	if (value === 'boolean' || value === 'bool') return 'boolean';
+	return 'string';
+}
+
+/**
+ * Lists the custom columns of a campaign. Uses the columns the campaign declares
+ * and falls back to the custom field keys found on its first 100 leads, which
+ * is enough for suggestions but not for telling whether a key is unknown; pass
+ * `declaredOnly` to skip the fallback.
+ */
+export async function getCampaignCustomFields(
+	this: IExecuteFunctions | ILoadOptionsFunctions,
+	campaignId: number,
+	declaredOnly = false,
+): Promise<ICustomFieldDefinition[]> {
+	const fields = new Map<string, CustomFieldType>();
+	const campaign = await leadspickerApiRequest.call(this, 'GET', `/projects/${campaignId}`);
+	const declared = isPlainObject(campaign)
+		? (campaign.custom_columns ?? campaign.custom_fields)
+		: undefined;
+	if (Array.isArray(declared)) {
+		for (const column of declared) {
+			if (typeof column === 'string' && column.trim() !== '') {
+				fields.set(column.trim(), 'string');
+			} else if (isPlainObject(column)) {
+				const key = column.key ?? column.name;
+				if (typeof key === 'string' && key.trim() !== '') {
+					fields.set(key.trim(), toCustomFieldType(column.type));
+				}
+			}
+		}
+	}
+	if (!fields.size && !declaredOnly) {
+		const leads = extractListItems(
+			await leadspickerApiRequest.call(
+				this,
+				'GET',
+				'/persons-simple',
+				{},
+				{ project_id: campaignId, page_size: 100 },
+			),
+		);
+		// A column takes the type of the first non-empty value found for it.
+		const typedKeys = new Set<string>();
+		for (const lead of leads) {
+			if (!isPlainObject(lead.custom_fields)) continue;
+			for (const [key, value] of Object.entries(lead.custom_fields)) {
+				const raw = isPlainObject(value) && 'value' in value ? value.value : value;
+				if (raw !== null && raw !== undefined && raw !== '' && !typedKeys.has(key)) {
+					fields.set(key, toCustomFieldType(raw));
+					typedKeys.add(key);
+				} else if (!fields.has(key)) {
+					fields.set(key, 'string');
+				}
+			}
+		}
+	}
+	return [...fields.entries()]
+		.map(([key, type]) => ({ key, type }))
+		.sort((a, b) => a.key.localeCompare(b.key));
 }
 
 // Helper function to get user's timezone with fallback
+/**
+ * Lists the webhooks that deliver to the given URL, e.g. the ones a trigger
+ * node registered for its webhook URL.
+ */
+export async function getWebhooksForUrl(
+	this: IExecuteFunctions | IHookFunctions,
+	url: string | undefined,
+): Promise<IDataObject[]> {
+	const response = await leadspickerApiRequest.call(this, 'GET', '/webhooks');
+	return extractListItems(response).filter(
+		(webhook) => typeof webhook.url === 'string' && webhook.url === url,
+	);
+}
+
 export function getUserTimezone(): string {
 	try {
 		return Intl.DateTimeFormat().resolvedOptions().timeZone || 'Europe/Prague';
@@ -12,9 +12,28 @@ import type {
 	NodeConnectionType,
 	NodeParameterValueType,
 	GenericValue,
+	NodeExecutionHint,
+	ResourceMapperField,
+	ResourceMapperFields,
+	ResourceMapperValue,
 } from 'n8n-workflow';
 
-import { leadspickerApiRequest, isPlainObject } from './GenericFunctions';
+import {
+	DEFAULT_PAGE_SIZE,
+	buildReplyQuery,
+	leadspickerApiRequest,
+	leadspickerApiRequestAllItems,
+	extractListItems,
+	getCampaignCustomFields,
+	getCampaignEvents,
+	getDailyQuotaBehavior,
+	getErrorOutput,
+	getStatusCode,
+	getWebhooksForUrl,
+	isDailyQuotaExhaustedError,
+	isPlainObject,
+} from './GenericFunctions';
+import type { DailyQuotaBehavior, IPaginationOptions } from './GenericFunctions';
 import {
 	accountFields,
 	accountOperations,
@@ -31,31 +50,89 @@ import {
 	globalExclusionListOperations,
 	replyFields,
 	replyOperations,
+	webhookFields,
+	webhookOperations,
+	requestOptionsFields,
 	MANUAL_ID_OPTION,
 } from './descriptions';
 
-// Interfaces remain the same...
-interface IEmailAccountItem {
-	address: string;
-}
-interface IEmailAccountsFilter {
-	email: IEmailAccountItem[];
-}
-interface ICampaignItem {
-	id: number | string;
-	idManual?: number;
-}
-interface ICampaignsFilter {
-	project: ICampaignItem[];
-}
-interface ISentimentItem {
-	type: string;
+// Lead fields of the Create/Update Lead operations and the payload keys they are sent as.
+const STANDARD_LEAD_FIELDS = [
+	{ parameter: 'leadCountry', key: 'country', displayName: 'Country' },
+	{ parameter: 'leadEmail', key: 'email', displayName: 'Email' },
+	{ parameter: 'leadFirstName', key: 'first_name', displayName: 'First Name' },
+	{ parameter: 'leadLastName', key: 'last_name', displayName: 'Last Name' },
+	{ parameter: 'leadPosition', key: 'position', displayName: 'Position' },
+	{ parameter: 'leadCompanyName', key: 'company_name', displayName: 'Company Name' },
+	{ parameter: 'leadCompanyWebsite', key: 'company_website', displayName: 'Company Website' },
+	{ parameter: 'leadCompanyLinkedin', key: 'company_linkedin', displayName: 'Company LinkedIn' },
+	{ parameter: 'leadLinkedin', key: 'linkedin', displayName: 'Lead LinkedIn' },
+	{ parameter: 'leadSalesNavigator', key: 'salesnav', displayName: 'Sales Navigator' },
+];
+
+const CUSTOM_FIELD_PREFIX = 'custom_field:';
+
+// Custom field keys per campaign, fetched once per execution.
+const customFieldKeysCache = new WeakMap<IExecuteFunctions, Map<number, Promise<string[]>>>();
+
+// Identifiers a lead can be matched by in Create or Update.
+const LEAD_IDENTIFIER_KEYS = ['email', 'linkedin', 'salesnav'];
+
+// Campaigns and the (flattened) leads of each campaign, listed once per execution.
+const campaignListCache = new WeakMap<IExecuteFunctions, Promise<IDataObject[]>>();
+const campaignLeadsCache = new WeakMap<IExecuteFunctions, Map<number, Promise<IDataObject[]>>>();
+
+// Leads of a campaign by normalized identifier ("email:jane@acme.com"), built once per execution.
+const leadIndexCache = new WeakMap<
+	IExecuteFunctions,
+	Map<number, Promise<Map<string, IDataObject>>>
+>();
+
+interface IBulkFieldMapping {
+	sourceField: string;
+	leadField: string;
+	customFieldKey?: string;
 }
-interface ISentimentFilter {
-	sentiment_value: ISentimentItem[];
+
+// Input field names (lowercased, without separators) recognized when no mapping is set.
+const LEAD_FIELD_ALIASES: Record<string, string> = {
+	company: 'company_name',
+	companylinkedin: 'company_linkedin',
+	companylinkedinurl: 'company_linkedin',
+	companyname: 'company_name',
+	companywebsite: 'company_website',
+	country: 'country',
+	email: 'email',
+	emailaddress: 'email',
+	firstname: 'first_name',
+	fullname: 'full_name',
+	jobtitle: 'position',
+	lastname: 'last_name',
+	linkedin: 'linkedin',
+	linkedinurl: 'linkedin',
+	name: 'full_name',
+	position: 'position',
+	salesnav: 'salesnav',
+	salesnavigator: 'salesnav',
+	salesnavigatorurl: 'salesnav',
+	title: 'position',
+	website: 'company_website',
+};
+
+interface ILeadSearchCriteria {
+	email?: string;
+	linkedin?: string;
+	name?: string;
+	companyName?: string;
+	customFields: Array<[string, string]>;
 }
 
-const DEFAULT_PAGE_SIZE = 1000;
+// Sequence control operations, the endpoint they call and the resulting state.
+const SEQUENCE_ACTIONS: Record<string, { path: string; status: string }> = {
+	pauseSequence: { path: 'pause', status: 'paused' },
+	resumeSequence: { path: 'resume', status: 'running' },
+	stopSequence: { path: 'stop', status: 'stopped' },
+};
 
 export class Leadspicker implements INodeType {
 	private static toNumericId(value: unknown): number | undefined {
@@ -86,6 +163,26 @@ export class Leadspicker implements INodeType {
 		return numeric ?? null;
 	}
 
+	/**
+	 * Reads the Return All / Limit pair and derives the paginator options for it.
+	 */
+	private static getListPagination(
+		context: IExecuteFunctions,
+		i: number,
+		pagination: IPaginationOptions,
+	): IPaginationOptions {
+		const returnAll = context.getNodeParameter('returnAll', i, true) as boolean;
+		if (returnAll) {
+			return pagination;
+		}
+		const limit = context.getNodeParameter('limit', i, 50) as number;
+		const pageSize =
+			pagination.strategy === 'cursor'
+				? pagination.pageSize
+				: Math.min(pagination.pageSize ?? DEFAULT_PAGE_SIZE, limit);
+		return { ...pagination, limit, pageSize };
+	}
+
 	private static coerceToDataObject(value: unknown): IDataObject {
 		return isPlainObject(value) ? (value as IDataObject) : ({ raw: value } as IDataObject);
 	}
@@ -236,6 +333,246 @@ export class Leadspicker implements INodeType {
 		return clone;
 	}
 
+	/**
+	 * Normalizes a lead identifier for comparison: emails are lowercased, LinkedIn
+	 * and Sales Navigator URLs lose protocol, subdomain, query string and trailing
+	 * slash. Sales Navigator IDs are case-sensitive, so only their host is lowercased.
+	 */
+	private static normalizeLeadIdentifier(key: string, value: unknown): string | undefined {
+		if (typeof value !== 'string' || value.trim() === '') {
+			return undefined;
+		}
+		const trimmed = value.trim();
+		if (key === 'email') {
+			return trimmed.toLowerCase();
+		}
+		const withoutProtocol = trimmed.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+		const [location] = withoutProtocol.split(/[?#]/);
+		const slashIndex = location.indexOf('/');
+		const host = (slashIndex === -1 ? location : location.slice(0, slashIndex))
+			.toLowerCase()
+			.replace(/^(www|[a-z]{2})\./, '');
+		let path = slashIndex === -1 ? '' : location.slice(slashIndex);
+		try {
+			path = decodeURIComponent(path);
+		} catch {
+			// Keep malformed escapes as they are.
+		}
+		// Sales Navigator lead URLs carry the search context after a comma.
+		path = path.split(',')[0].replace(/\/+$/, '');
+		return `${host}${key === 'salesnav' ? path : path.toLowerCase()}`;
+	}
+
+	/** Adds a lead to a campaign's lead index under each of its identifiers. */
+	private static indexLead(index: Map<string, IDataObject>, lead: IDataObject) {
+		for (const key of LEAD_IDENTIFIER_KEYS) {
+			const value = Leadspicker.normalizeLeadIdentifier(key, lead[key]);
+			if (value !== undefined) {
+				index.set(`${key}:${value}`, lead);
+			}
+		}
+	}
+
+	/** Campaigns of the account, listed once per execution. */
+	private static getCampaignList(context: IExecuteFunctions): Promise<IDataObject[]> {
+		let campaigns = campaignListCache.get(context);
+		if (!campaigns) {
+			campaigns = leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/projects',
+				{},
+				{},
+				{ strategy: 'offset', pageSize: DEFAULT_PAGE_SIZE },
+			);
+			// A failed listing is retried by the next item instead of failing every item.
+			campaigns.catch(() => campaignListCache.delete(context));
+			campaignListCache.set(context, campaigns);
+		}
+		return campaigns;
+	}
+
+	/** Flattened leads of a campaign, listed once per execution. */
+	private static getCampaignLeads(
+		context: IExecuteFunctions,
+		campaignId: number,
+	): Promise<IDataObject[]> {
+		let campaigns = campaignLeadsCache.get(context);
+		if (!campaigns) {
+			campaigns = new Map();
+			campaignLeadsCache.set(context, campaigns);
+		}
+		let leads = campaigns.get(campaignId);
+		if (!leads) {
+			leads = leadspickerApiRequestAllItems
+				.call(
+					context,
+					'GET',
+					'/persons-simple',
+					{},
+					{ project_id: campaignId },
+					{ strategy: 'page', pageSize: DEFAULT_PAGE_SIZE },
+				)
+				.then((items) => items.map((item) => Leadspicker.flattenLeadPayload(item) as IDataObject));
+			leads.catch(() => campaigns.delete(campaignId));
+			campaigns.set(campaignId, leads);
+		}
+		return leads;
+	}
+
+	/**
+	 * Index of the campaign's leads by email, LinkedIn and Sales Navigator URL.
+	 * The campaign is listed once per execution, however many items are upserted.
+	 */
+	private static getLeadIndex(
+		context: IExecuteFunctions,
+		campaignId: number,
+	): Promise<Map<string, IDataObject>> {
+		let campaigns = leadIndexCache.get(context);
+		if (!campaigns) {
+			campaigns = new Map();
+			leadIndexCache.set(context, campaigns);
+		}
+		let index = campaigns.get(campaignId);
+		if (!index) {
+			index = Leadspicker.getCampaignLeads(context, campaignId).then((leads) => {
+				const leadIndex = new Map<string, IDataObject>();
+				for (const lead of leads) {
+					Leadspicker.indexLead(leadIndex, lead);
+				}
+				return leadIndex;
+			});
+			index.catch(() => campaigns.delete(campaignId));
+			campaigns.set(campaignId, index);
+		}
+		return index;
+	}
+
+	/**
+	 * Looks for a lead in the campaign whose email, LinkedIn or Sales Navigator URL
+	 * matches one of the given identifiers, in the order they are given.
+	 */
+	private static async findLeadByIdentifiers(
+		context: IExecuteFunctions,
+		campaignId: number,
+		identifiers: Array<[string, string]>,
+	): Promise<IDataObject | undefined> {
+		const index = await Leadspicker.getLeadIndex(context, campaignId);
+		for (const [key, value] of identifiers) {
+			const lead = index.get(`${key}:${value}`);
+			if (lead) {
+				return lead;
+			}
+		}
+		return undefined;
+	}
+
+	private static getLeadSearchCriteria(context: IExecuteFunctions, i: number): ILeadSearchCriteria {
+		const criteria = context.getNodeParameter('searchCriteria', i, {}) as IDataObject;
+		const text = (value: unknown) =>
+			typeof value === 'string' && value.trim() !== '' ? value.trim().toLowerCase() : undefined;
+		const customFieldList = Array.isArray((criteria.customFields as IDataObject)?.field)
+			? ((criteria.customFields as IDataObject).field as IDataObject[])
+			: [];
+		const result: ILeadSearchCriteria = {
+			email: Leadspicker.normalizeLeadIdentifier('email', criteria.email),
+			linkedin: Leadspicker.normalizeLeadIdentifier('linkedin', criteria.linkedin),
+			name: text(criteria.name),
+			companyName: text(criteria.companyName),
+			customFields: customFieldList
+				.filter((field) => typeof field?.key === 'string' && field.key.trim() !== '')
+				.map((field) => [(field.key as string).trim(), text(field.value) ?? '']),
+		};
+		if (
+			!result.email &&
+			!result.linkedin &&
+			!result.name &&
+			!result.companyName &&
+			!result.customFields.length
+		) {
+			throw new NodeOperationError(context.getNode(), 'Please add at least one search criterion.');
+		}
+		return result;
+	}
+
+	private static matchesLeadSearch(lead: IDataObject, criteria: ILeadSearchCriteria): boolean {
+		const text = (value: unknown) =>
+			typeof value === 'string' || typeof value === 'number'
+				? value.toString().trim().toLowerCase()
+				: '';
+		if (
+			criteria.email &&
+			Leadspicker.normalizeLeadIdentifier('email', lead.email) !== criteria.email
+		) {
+			return false;
+		}
+		if (
+			criteria.linkedin &&
+			Leadspicker.normalizeLeadIdentifier('linkedin', lead.linkedin) !== criteria.linkedin
+		) {
+			return false;
+		}
+		if (criteria.name) {
+			const fullName = text(lead.full_name) || `${text(lead.first_name)} ${text(lead.last_name)}`;
+			if (!fullName.includes(criteria.name)) {
+				return false;
+			}
+		}
+		if (criteria.companyName && !text(lead.company_name).includes(criteria.companyName)) {
+			return false;
+		}
+		const customFields = isPlainObject(lead.custom_fields)
+			? (lead.custom_fields as IDataObject)
+			: {};
+		return criteria.customFields.every(
+			([key, value]) => text(customFields[key] ?? lead[key]) === value,
+		);
+	}
+
+	/**
+	 * Searches the leads of one campaign, or of every campaign, and adds the
+	 * campaign ID and name to each match. Campaigns and their leads are listed
+	 * once per execution and shared by all items.
+	 */
+	private static async searchLeads(context: IExecuteFunctions, i: number): Promise<IDataObject[]> {
+		const criteria = Leadspicker.getLeadSearchCriteria(context, i);
+		const returnAll = context.getNodeParameter('returnAll', i, true) as boolean;
+		const limit = returnAll ? undefined : (context.getNodeParameter('limit', i, 50) as number);
+		const searchAllCampaigns = context.getNodeParameter('searchAllCampaigns', i, false) as boolean;
+
+		const campaigns = await Leadspicker.getCampaignList(context);
+		const campaignIds = searchAllCampaigns
+			? campaigns
+					.map((campaign) => Leadspicker.toNumericId(campaign.id))
+					.filter((id): id is number => id !== undefined)
+			: [
+					Leadspicker.getIdFromOptionOrManual(
+						context,
+						'projectId',
+						'projectIdManual',
+						'project',
+						i,
+					),
+				];
+
+		const matches: IDataObject[] = [];
+		for (const campaignId of campaignIds) {
+			const campaign = campaigns.find((entry) => Leadspicker.toNumericId(entry.id) === campaignId);
+			for (const lead of await Leadspicker.getCampaignLeads(context, campaignId)) {
+				if (!Leadspicker.matchesLeadSearch(lead, criteria)) continue;
+				matches.push({
+					...lead,
+					campaign_id: campaignId,
+					campaign_name: typeof campaign?.name === 'string' ? campaign.name : null,
+				});
+				if (limit !== undefined && matches.length >= limit) {
+					return matches;
+				}
+			}
+		}
+		return matches;
+	}
+
 	private static splitIdentifierString(value: unknown): string[] {
 		if (typeof value !== 'string' || value.trim() === '') {
 			return [];
@@ -288,44 +625,611 @@ export class Leadspicker implements INodeType {
 		return items;
 	}
 
-	private static buildLeadPayload(context: IExecuteFunctions, i: number): IDataObject {
+	/**
+	 * Splits a full name of at least two words into first and last name, which
+	 * take precedence over the separate name fields.
+	 */
+	private static applyFullName(body: IDataObject, fullName: unknown) {
+		if (typeof fullName !== 'string') {
+			return;
+		}
+		const nameParts = fullName
+			.split(/\s+/)
+			.map((part) => part.trim())
+			.filter((part) => part.length > 0);
+		if (nameParts.length >= 2) {
+			// Use first token as first name, join remaining parts for last name
+			body.first_name = nameParts[0];
+			body.last_name = nameParts.slice(1).join(' ');
+		}
+	}
+
+	/**
+	 * Turns an input item into a lead for `/persons/bulk`, using the configured
+	 * field mapping or, without one, the input fields named like lead fields.
+	 */
+	private static buildLeadFromItem(
+		json: IDataObject,
+		mappings: IBulkFieldMapping[],
+		unmappedAsCustomFields: boolean,
+	): IDataObject {
+		const lead: IDataObject = {};
+		const customFields: IDataObject = {};
+		const usedKeys = new Set<string>();
+		const isValue = (value: unknown) =>
+			typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+		if (mappings.length) {
+			for (const { sourceField, leadField, customFieldKey } of mappings) {
+				usedKeys.add(sourceField);
+				const value = json[sourceField];
+				if (!isValue(value)) continue;
+				if (leadField === 'custom') {
+					if (customFieldKey?.trim()) customFields[customFieldKey.trim()] = value;
+				} else {
+					lead[leadField] = value;
+				}
+			}
+		} else {
+			for (const [key, value] of Object.entries(json)) {
+				const leadField = LEAD_FIELD_ALIASES[key.toLowerCase().replace(/[^a-z0-9]/g, '')];
+				if (leadField && isValue(value)) {
+					lead[leadField] = value;
+					usedKeys.add(key);
+				}
+			}
+		}
+		if (unmappedAsCustomFields) {
+			for (const [key, value] of Object.entries(json)) {
+				if (!usedKeys.has(key) && isValue(value) && !(key in customFields)) {
+					customFields[key] = value;
+				}
+			}
+		}
+
+		Leadspicker.applyFullName(lead, lead.full_name);
+		delete lead.full_name;
+		Object.keys(lead).forEach((key) => {
+			if (lead[key] === '' || lead[key] === null || lead[key] === undefined) delete lead[key];
+		});
+		if (Object.keys(customFields).length > 0) {
+			lead.custom_fields = customFields;
+		}
+		return lead;
+	}
+
+	/**
+	 * Bulk Create Leads in "From Input Items" mode: every input item becomes one
+	 * lead, sent in chunks. Each output item reports the outcome of its row and is
+	 * paired with the input item it was built from.
+	 */
+	private static async bulkCreateFromItems(
+		context: IExecuteFunctions,
+		items: INodeExecutionData[],
+		quotaBehavior: DailyQuotaBehavior,
+	): Promise<{ processed: INodeExecutionData[]; unprocessed: INodeExecutionData[] }> {
+		const campaignId = Leadspicker.getIdFromOptionOrManual(
+			context,
+			'projectId',
+			'projectIdManual',
+			'project',
+			0,
+		);
+		const mappingCollection = context.getNodeParameter('bulkFieldMapping', 0, {}) as {
+			mapping?: IBulkFieldMapping[];
+		};
+		const mappings = (mappingCollection.mapping ?? []).filter(
+			(mapping) => typeof mapping.sourceField === 'string' && mapping.sourceField.trim() !== '',
+		);
+		const options = context.getNodeParameter('bulkOptions', 0, {}) as IDataObject;
+		const chunkSize = Leadspicker.getBulkChunkSize(options);
+
+		const results: Array<INodeExecutionData | undefined> = new Array(items.length);
+		const unprocessed: INodeExecutionData[] = [];
+		const rows: Array<{ index: number; lead: IDataObject }> = [];
+		items.forEach((item, index) => {
+			const lead = Leadspicker.buildLeadFromItem(
+				item.json,
+				mappings,
+				options.unmappedAsCustomFields === true,
+			);
+			if (!Object.keys(lead).length) {
+				const error = new NodeOperationError(
+					context.getNode(),
+					'The item has no fields that map to a lead field.',
+				);
+				results[index] = {
+					json: { success: false, ...getErrorOutput(error) },
+					pairedItem: { item: index },
+				};
+				return;
+			}
+			rows.push({ index, lead: { data_source: 'user_provided', ...lead } });
+		});
+
+		for (let start = 0; start < rows.length; start += chunkSize) {
+			const chunk = rows.slice(start, start + chunkSize);
+			try {
+				const response = await leadspickerApiRequest.call(context, 'POST', '/persons/bulk', {
+					project_id: campaignId,
+					persons: chunk.map((row) => row.lead),
+				});
+				const entries = Leadspicker.matchBulkEntries(
+					chunk.map((row) => row.lead),
+					extractListItems(response),
+				);
+				chunk.forEach((row, position) => {
+					const entry = entries[position];
+					const failure =
+						entry === undefined
+							? 'Leadspicker returned no result for this lead, e.g. because it was skipped as a duplicate.'
+							: (entry.error ?? entry.errors);
+					results[row.index] = {
+						json:
+							failure !== undefined && failure !== null
+								? { success: false, error: failure, input: row.lead }
+								: {
+										success: true,
+										...(Leadspicker.flattenLeadPayload(entry) as IDataObject),
+									},
+						pairedItem: { item: row.index },
+					};
+				});
+			} catch (error) {
+				if (quotaBehavior === 'outputUnprocessed' && isDailyQuotaExhaustedError(error)) {
+					for (const row of rows.slice(start)) {
+						unprocessed.push({ ...items[row.index], pairedItem: { item: row.index } });
+					}
+					break;
+				}
+				if (!Leadspicker.isRowLevelError(error) && !context.continueOnFail()) {
+					throw error;
+				}
+				for (const row of chunk) {
+					results[row.index] = {
+						json: { success: false, ...getErrorOutput(error), input: row.lead },
+						pairedItem: { item: row.index },
+					};
+				}
+			}
+		}
+
+		return {
+			processed: results.filter((result): result is INodeExecutionData => result !== undefined),
+			unprocessed,
+		};
+	}
+
+	/**
+	 * Pairs the entries of a `/persons/bulk` response with the submitted leads: by
+	 * the row index Leadspicker reports, else by email, LinkedIn or Sales Navigator
+	 * URL. The response order is only relied on when there is an entry for every
+	 * lead; a lead left without an entry was not created.
+	 */
+	private static matchBulkEntries(
+		leads: IDataObject[],
+		entries: IDataObject[],
+	): Array<IDataObject | undefined> {
+		const matched: Array<IDataObject | undefined> = new Array(leads.length);
+		const unmatched: IDataObject[] = [];
+		for (const entry of entries) {
+			const rowIndex = [entry.index, entry.row_index, entry.row]
+				.map((value) => Leadspicker.toNumericId(value))
+				.find((value) => value !== undefined);
+			if (
+				rowIndex !== undefined &&
+				rowIndex >= 0 &&
+				rowIndex < leads.length &&
+				matched[rowIndex] === undefined
+			) {
+				matched[rowIndex] = entry;
+				continue;
+			}
+			const lead = Leadspicker.flattenLeadPayload(entry) as IDataObject;
+			const position = leads.findIndex(
+				(row, index) =>
+					matched[index] === undefined &&
+					LEAD_IDENTIFIER_KEYS.some((key) => {
+						const value = Leadspicker.normalizeLeadIdentifier(key, row[key]);
+						return (
+							value !== undefined && value === Leadspicker.normalizeLeadIdentifier(key, lead[key])
+						);
+					}),
+			);
+			if (position !== -1) {
+				matched[position] = entry;
+			} else {
+				unmatched.push(entry);
+			}
+		}
+		if (entries.length === leads.length) {
+			for (let index = 0; index < leads.length && unmatched.length; index++) {
+				if (matched[index] === undefined) {
+					matched[index] = unmatched.shift();
+				}
+			}
+		}
+		return matched;
+	}
+
+	/**
+	 * Whether a failed bulk request was rejected because of the submitted leads
+	 * (validation errors, duplicates) rather than failing as a whole (credentials,
+	 * permissions, network or server errors), which stops the execution.
+	 */
+	private static isRowLevelError(error: unknown): boolean {
+		const status = getStatusCode(error);
+		return status === 400 || status === 409 || status === 422;
+	}
+
+	private static getBulkChunkSize(options: IDataObject): number {
+		return Math.max(1, Math.floor(Number(options.chunkSize) || 100));
+	}
+
+	private static parseLeadIds(context: IExecuteFunctions, value: unknown): number[] {
+		const entries =
+			typeof value === 'number'
+				? [value.toString()]
+				: typeof value === 'string'
+					? value.split(/[\s,;]+/).filter((entry) => entry !== '')
+					: Array.isArray(value)
+						? value.map((entry) => String(entry))
+						: [];
+		return entries.map((entry) => {
+			const id = Leadspicker.toNumericId(entry);
+			if (id === undefined) {
+				throw new NodeOperationError(context.getNode(), `"${entry}" is not a valid lead ID.`);
+			}
+			return id;
+		});
+	}
+
+	/**
+	 * Reads the per-lead failures from a bulk response: entries of an `errors` or
+	 * `failed` list, or list entries carrying an error.
+	 */
+	private static getBulkFailures(response: unknown): Map<number, unknown> {
+		const failures = new Map<number, unknown>();
+		const data = isPlainObject(response) ? (response as IDataObject) : {};
+		const failureEntries = [data.errors, data.failed].filter(Array.isArray).flat() as unknown[];
+		const listedEntries = extractListItems(response).filter(
+			(entry) => entry.error !== undefined || entry.errors !== undefined,
+		);
+		for (const entry of [...failureEntries, ...listedEntries]) {
+			if (!isPlainObject(entry)) continue;
+			const id = Leadspicker.toNumericId(entry.id ?? entry.person_id);
+			if (id !== undefined) {
+				failures.set(
+					id,
+					entry.error ??
+						entry.errors ??
+						entry.detail ??
+						entry.message ??
+						'Leadspicker rejected the change',
+				);
+			}
+		}
+		return failures;
+	}
+
+	/**
+	 * Bulk Update and Bulk Delete Leads: collects the lead IDs of all input items
+	 * and sends them in chunks. Each output item reports the outcome for one lead
+	 * ID and is paired with the input item that named it.
+	 */
+	private static async bulkChangeLeads(
+		context: IExecuteFunctions,
+		items: INodeExecutionData[],
+		operation: 'bulkUpdate' | 'bulkDelete',
+		quotaBehavior: DailyQuotaBehavior,
+	): Promise<{ processed: INodeExecutionData[]; unprocessed: INodeExecutionData[] }> {
+		const rows: Array<{ index: number; id: number; patch?: IDataObject }> = [];
+		const processed: INodeExecutionData[] = [];
+		const unprocessed: INodeExecutionData[] = [];
+		for (let i = 0; i < items.length; i++) {
+			try {
+				const ids = Leadspicker.parseLeadIds(context, context.getNodeParameter('bulkLeadIds', i));
+				const patch =
+					operation === 'bulkUpdate' ? Leadspicker.buildLeadPayload(context, i) : undefined;
+				for (const id of ids) {
+					rows.push({ index: i, id, patch });
+				}
+			} catch (error) {
+				if (!context.continueOnFail()) {
+					throw error;
+				}
+				processed.push({
+					json: { success: false, ...getErrorOutput(error) },
+					pairedItem: { item: i },
+				});
+			}
+		}
+		if (!rows.length) {
+			if (processed.length) {
+				return { processed, unprocessed };
+			}
+			throw new NodeOperationError(context.getNode(), 'Please provide at least one lead ID.');
+		}
+		if (operation === 'bulkDelete') {
+			const maxLeads = context.getNodeParameter('bulkDeleteMaxLeads', 0, 100) as number;
+			const leadCount = new Set(rows.map((row) => row.id)).size;
+			if (leadCount > maxLeads) {
+				throw new NodeOperationError(
+					context.getNode(),
+					`Refusing to delete ${leadCount} leads, which is more than the configured maximum of ${maxLeads}.`,
+					{ description: 'Raise "Max Leads to Delete" to confirm the deletion.' },
+				);
+			}
+		}
+
+		const options = context.getNodeParameter('bulkOptions', 0, {}) as IDataObject;
+		const chunkSize = Leadspicker.getBulkChunkSize(options);
+		for (let start = 0; start < rows.length; start += chunkSize) {
+			const chunk = rows.slice(start, start + chunkSize);
+			try {
+				const response =
+					operation === 'bulkUpdate'
+						? await leadspickerApiRequest.call(context, 'PATCH', '/persons/bulk', {
+								persons: chunk.map((row) => ({ ...row.patch, id: row.id })),
+							})
+						: await leadspickerApiRequest.call(context, 'DELETE', '/persons/bulk', {
+								ids: chunk.map((row) => row.id),
+							});
+				const failures = Leadspicker.getBulkFailures(response);
+				const leads = new Map(
+					extractListItems(response).map((lead) => [Leadspicker.toNumericId(lead.id), lead]),
+				);
+				for (const row of chunk) {
+					const lead = operation === 'bulkUpdate' ? leads.get(row.id) : undefined;
+					processed.push({
+						json: failures.has(row.id)
+							? { id: row.id, success: false, error: failures.get(row.id) as IDataObject }
+							: {
+									...(lead ? (Leadspicker.flattenLeadPayload(lead) as IDataObject) : {}),
+									id: row.id,
+									success: true,
+								},
+						pairedItem: { item: row.index },
+					});
+				}
+			} catch (error) {
+				if (quotaBehavior === 'outputUnprocessed' && isDailyQuotaExhaustedError(error)) {
+					const remaining = new Set(rows.slice(start).map((row) => row.index));
+					for (const index of remaining) {
+						unprocessed.push({ ...items[index], pairedItem: { item: index } });
+					}
+					break;
+				}
+				if (!Leadspicker.isRowLevelError(error) && !context.continueOnFail()) {
+					throw error;
+				}
+				for (const row of chunk) {
+					processed.push({
+						json: { id: row.id, success: false, ...getErrorOutput(error) },
+						pairedItem: { item: row.index },
+					});
+				}
+			}
+		}
+		return { processed, unprocessed };
+	}
+
+	/**
+	 * Turns a lead as returned by `GET /persons/{id}` back into a create payload,
+	 * carrying over all person and contact data and the custom fields.
+	 */
+	private static buildLeadCopyPayload(lead: IDataObject): IDataObject {
+		const flatten = (value: unknown) =>
+			isPlainObject(value) ? (Leadspicker.flattenLeadPayload(value) as IDataObject) : {};
+		const body: IDataObject = {
+			data_source: typeof lead.data_source === 'string' ? lead.data_source : 'user_provided',
+		};
+		const details = { ...flatten(lead.contact_data), ...flatten(lead.person_data) };
+		for (const [key, value] of Object.entries(details)) {
+			if (key !== 'id' && Leadspicker.hasMeaningfulValue(value)) {
+				body[key] = value;
+			}
+		}
+		const customFields = flatten(lead.custom_fields);
+		if (Object.keys(customFields).length > 0) {
+			body.custom_fields = customFields;
+		}
+		return body;
+	}
+
+	private static getCustomFieldKeys(context: IExecuteFunctions, campaignId: number) {
+		let campaigns = customFieldKeysCache.get(context);
+		if (!campaigns) {
+			campaigns = new Map();
+			customFieldKeysCache.set(context, campaigns);
+		}
+		let keys = campaigns.get(campaignId);
+		if (!keys) {
+			keys = getCampaignCustomFields
+				.call(context, campaignId, true)
+				.then((fields) => fields.map((field) => field.key));
+			keys.catch(() => campaigns.delete(campaignId));
+			campaigns.set(campaignId, keys);
+		}
+		return keys;
+	}
+
+	/** Known key within two typos of the given one, e.g. "Industry" for "Industy". */
+	private static findSimilarKey(key: string, knownKeys: string[]): string | undefined {
+		const distance = (a: string, b: string) => {
+			let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+			for (let x = 1; x <= a.length; x++) {
+				const current = [x];
+				for (let y = 1; y <= b.length; y++) {
+					const cost = a[x - 1] === b[y - 1] ? 0 : 1;
+					current[y] = Math.min(previous[y] + 1, current[y - 1] + 1, previous[y - 1] + cost);
+				}
+				previous = current;
+			}
+			return previous[b.length];
+		};
+		const normalizedKey = key.toLowerCase();
+		return knownKeys.find((known) => distance(known.toLowerCase(), normalizedKey) <= 2);
+	}
+
+	/**
+	 * Compares the submitted custom field keys with the columns of the lead's
+	 * campaign. Unknown keys fail the item or add a warning, depending on the
+	 * "Unknown Custom Fields" setting, so a typo does not silently add a column.
+	 * The warning is returned for the caller to add once the lead was saved. A
+	 * failed lookup of the columns skips the check instead of failing the write,
+	 * and so does a campaign that declares no columns.
+	 */
+	private static async checkCustomFieldKeys(
+		context: IExecuteFunctions,
+		i: number,
+		body: IDataObject,
+		campaignId?: number,
+		leadId?: number,
+	): Promise<NodeExecutionHint | undefined> {
+		const customFields = body.custom_fields;
+		if (!isPlainObject(customFields) || !Object.keys(customFields).length) {
+			return;
+		}
+		const mode = context.getNodeParameter('unknownCustomFields', i, 'warn') as string;
+		if (mode === 'allow') {
+			return;
+		}
+		let leadCampaignId = campaignId;
+		let knownKeys: string[];
+		try {
+			if (leadCampaignId === undefined && leadId !== undefined) {
+				const lead = Leadspicker.coerceToDataObject(
+					await leadspickerApiRequest.call(context, 'GET', `/persons/${leadId}`),
+				);
+				leadCampaignId = Leadspicker.toNumericId(lead.project_id);
+			}
+			if (leadCampaignId === undefined) {
+				return;
+			}
+			knownKeys = await Leadspicker.getCustomFieldKeys(context, leadCampaignId);
+		} catch {
+			// The check is best-effort: when the columns cannot be looked up, the lead is saved unchecked.
+			return;
+		}
+		if (!knownKeys.length) {
+			// Without declared columns there is nothing reliable to compare the keys with.
+			return;
+		}
+		const unknownKeys = Object.keys(customFields).filter((key) => !knownKeys.includes(key));
+		if (!unknownKeys.length) {
+			return;
+		}
+		const details = unknownKeys.map((key) => {
+			const similar = Leadspicker.findSimilarKey(key, knownKeys);
+			return similar ? `"${key}" (did you mean "${similar}"?)` : `"${key}"`;
+		});
+		const message = `Campaign ${leadCampaignId} has no custom field ${details.join(', ')}`;
+		if (mode === 'error') {
+			throw new NodeOperationError(context.getNode(), message, {
+				description:
+					'Fix the key, or set "Unknown Custom Fields" to create new columns for unknown keys.',
+			});
+		}
+		return {
+			message: `${message}. A new column was created.`,
+			type: 'warning',
+			location: 'outputPane',
+		};
+	}
+
+	/**
+	 * Reads the lead fields of the "Lead Fields" resource mapper. In automatic
+	 * mode the input item's fields are matched to lead fields by name (aliases
+	 * such as "Job Title" included) and to custom fields by key.
+	 */
+	private static getMappedLeadFields(
+		context: IExecuteFunctions,
+		i: number,
+	): { lead: IDataObject; customFields: IDataObject } {
+		const mapper = context.getNodeParameter('leadFields', i) as ResourceMapperValue;
+		const nameFormat = context.getNodeParameter('leadNameFormat', i, 'separate') as string;
+		let values: IDataObject = mapper.value ?? {};
+		if (mapper.mappingMode === 'autoMapInputData') {
+			const fieldIds = new Set((mapper.schema ?? []).map((field) => field.id));
+			values = {};
+			for (const [key, value] of Object.entries(context.getInputData()[i]?.json ?? {})) {
+				const alias = LEAD_FIELD_ALIASES[key.toLowerCase().replace(/[^a-z0-9]/g, '')];
+				const id = [key, `${CUSTOM_FIELD_PREFIX}${key}`, alias].find(
+					(candidate) => candidate !== undefined && fieldIds.has(candidate),
+				);
+				if (id !== undefined && values[id] === undefined) {
+					values[id] = value;
+				}
+			}
+		}
+
+		const lead: IDataObject = {};
+		const customFields: IDataObject = {};
+		for (const [id, value] of Object.entries(values)) {
+			if (value === '' || value === null || value === undefined) continue;
+			if (id.startsWith(CUSTOM_FIELD_PREFIX)) {
+				customFields[id.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+			} else {
+				lead[id] = value;
+			}
+		}
+		if (nameFormat === 'fullName' && typeof lead.full_name === 'string') {
+			const fullName = lead.full_name.trim();
+			Leadspicker.applyFullName(lead, fullName);
+			// A single word cannot be split, so it is used as the first name
+			if (lead.first_name === undefined && fullName) lead.first_name = fullName;
+		}
+		delete lead.full_name;
+		return { lead, customFields };
+	}
+
+	/**
+	 * Normalizes the sequence state of a lead to `status` (e.g. running, paused,
+	 * stopped or finished), the `next_step` and the time it is scheduled for.
+	 */
+	private static formatSequenceStatus(
+		leadId: number,
+		response: unknown,
+		fallbackStatus?: string,
+	): IDataObject {
+		const data = isPlainObject(response) ? (response as IDataObject) : {};
+		const nextStep = isPlainObject(data.next_step) ? (data.next_step as IDataObject) : null;
+		return {
+			lead_id: leadId,
+			...data,
+			status: data.status ?? data.sequence_status ?? fallbackStatus ?? null,
+			next_step: nextStep,
+			next_step_at: nextStep?.scheduled_at ?? data.next_step_at ?? null,
+		};
+	}
+
+	private static buildLeadPayload(
+		context: IExecuteFunctions,
+		i: number,
+		inputMode: 'fields' | 'mapper' = 'fields',
+	): IDataObject {
 		const customFields = context.getNodeParameter('customFields', i) as IDataObject;
-		const fieldMappings: Array<[string, string]> = [
-			['leadCountry', 'country'],
-			['leadEmail', 'email'],
-			['leadFirstName', 'first_name'],
-			['leadLastName', 'last_name'],
-			['leadPosition', 'position'],
-			['leadCompanyName', 'company_name'],
-			['leadCompanyWebsite', 'company_website'],
-			['leadCompanyLinkedin', 'company_linkedin'],
-			['leadLinkedin', 'linkedin'],
-			['leadSalesNavigator', 'salesnav'],
-		];
 		const body: IDataObject = { data_source: 'user_provided' };
-		for (const [paramName, payloadKey] of fieldMappings) {
-			body[payloadKey] = context.getNodeParameter(paramName, i) as NodeParameterValueType;
-		}
-		const fullNameRaw = context.getNodeParameter('leadFullName', i) as string;
-		if (typeof fullNameRaw === 'string') {
-			const nameParts = fullNameRaw
-				.split(/\s+/)
-				.map((part) => part.trim())
-				.filter((part) => part.length > 0);
-			if (nameParts.length >= 2) {
-				// Use first token as first name, join remaining parts for last name
-				body.first_name = nameParts[0];
-				body.last_name = nameParts.slice(1).join(' ');
+		const customFieldsObj: IDataObject = {};
+		if (inputMode === 'mapper') {
+			const mapped = Leadspicker.getMappedLeadFields(context, i);
+			Object.assign(body, mapped.lead);
+			Object.assign(customFieldsObj, mapped.customFields);
+		} else {
+			for (const { parameter, key } of STANDARD_LEAD_FIELDS) {
+				body[key] = context.getNodeParameter(parameter, i) as NodeParameterValueType;
 			}
+			Leadspicker.applyFullName(body, context.getNodeParameter('leadFullName', i));
 		}
 
 		if (customFields.field && Array.isArray(customFields.field)) {
-			const customFieldsObj: IDataObject = {};
 			for (const field of customFields.field as any[]) {
-				if (field.key && field.value) customFieldsObj[field.key] = field.value;
+				const key = field.keyName && field.keyName !== MANUAL_ID_OPTION ? field.keyName : field.key;
+				if (key && field.value) customFieldsObj[key] = field.value;
 			}
-			if (Object.keys(customFieldsObj).length > 0) body.custom_fields = customFieldsObj;
 		}
+		if (Object.keys(customFieldsObj).length > 0) body.custom_fields = customFieldsObj;
 
 		Object.keys(body).forEach((key) => {
 			if (body[key] === '' || body[key] === null || body[key] === undefined) delete body[key];
@@ -336,6 +1240,18 @@ export class Leadspicker implements INodeType {
 
 	methods = {
 		loadOptions: {
+			async getCustomFields(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const manualOption = { name: 'Enter Key manually...', value: MANUAL_ID_OPTION };
+				const campaignId = Leadspicker.getCampaignIdForLeadOptions(this);
+				if (campaignId === undefined) {
+					return [manualOption];
+				}
+				const fields = await getCampaignCustomFields.call(this, campaignId);
+				return [
+					manualOption,
+					...fields.map(({ key, type }) => ({ name: key, value: key, description: type })),
+				];
+			},
 			async getCampaigns(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
 				const query: IDataObject = { limit: 50 };
 				const response = await leadspickerApiRequest.call(this, 'GET', '/projects', {}, query);
@@ -405,6 +1321,45 @@ export class Leadspicker implements INodeType {
 				return options;
 			},
 		},
+		resourceMapping: {
+			async getLeadFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				const campaignId = Leadspicker.getCampaignIdForLeadOptions(this);
+				const customFields =
+					campaignId === undefined ? [] : await getCampaignCustomFields.call(this, campaignId);
+				const params = (this.getCurrentNodeParameters?.() ?? {}) as IDataObject;
+				// With the full name format, one Full Name field replaces First/Last Name
+				const standardFields =
+					params.leadNameFormat === 'fullName'
+						? STANDARD_LEAD_FIELDS.flatMap((field) =>
+								field.key === 'first_name'
+									? [{ key: 'full_name', displayName: 'Full Name' }]
+									: field.key === 'last_name'
+										? []
+										: [field],
+							)
+						: STANDARD_LEAD_FIELDS;
+				const fields: ResourceMapperField[] = [
+					...standardFields.map(({ key, displayName }) => ({
+						id: key,
+						displayName,
+						type: 'string' as const,
+						required: false,
+						defaultMatch: false,
+						canBeUsedToMatch: ['email', 'linkedin', 'salesnav'].includes(key),
+						display: true,
+					})),
+					...customFields.map(({ key, type }) => ({
+						id: `${CUSTOM_FIELD_PREFIX}${key}`,
+						displayName: `${key} (Custom Field)`,
+						type,
+						required: false,
+						defaultMatch: false,
+						display: true,
+					})),
+				];
+				return { fields };
+			},
+		},
 	};
 
 	description: INodeTypeDescription = {
@@ -412,15 +1367,16 @@ export class Leadspicker implements INodeType {
 		name: 'leadspicker',
 		icon: 'file:logo_leadspicker.svg',
 		group: ['transform'],
-		version: 1,
+		version: [1, 1.1],
+		defaultVersion: 1.1,
 		subtitle:
-			'={{( { person: "Lead", project: "Campaign", reply: "Reply", linkedinActivity: "Linkedin", globalExclusionList: "Global Exclusion List", outreach: "Outreach", account: "Account" }[$parameter["resource"]] ?? $parameter["resource"]) + ": " + $parameter["operation"]}}',
+			'={{( { person: "Lead", project: "Campaign", reply: "Reply", linkedinActivity: "Linkedin", globalExclusionList: "Global Exclusion List", outreach: "Outreach", account: "Account", webhook: "Webhook" }[$parameter["resource"]] ?? $parameter["resource"]) + ": " + $parameter["operation"]}}',
 		description: 'Interact with Leadspicker API',
 		defaults: {
 			name: 'Leadspicker',
 		},
 		inputs: ['main' as NodeConnectionType],
-		outputs: ['main' as NodeConnectionType],
+		outputs: `={{ $parameter["requestOptions"]?.onDailyQuotaExhausted === "outputUnprocessed" ? [{ type: "main", displayName: "Processed" }, { type: "main", displayName: "Unprocessed" }] : ["main"] }}`,
 		credentials: [
 			{
 				name: 'leadspickerApi',
@@ -463,6 +1419,10 @@ export class Leadspicker implements INodeType {
 						name: 'Reply',
 						value: 'reply',
 					},
+					{
+						name: 'Webhook',
+						value: 'webhook',
+					},
 				],
 				default: 'project',
 			},
@@ -473,6 +1433,7 @@ export class Leadspicker implements INodeType {
 			...linkedinActivityOperations,
 			...globalExclusionListOperations,
 			...outreachOperations,
+			...webhookOperations,
 			...accountFields,
 			...campaignFields,
 			...globalExclusionListFields,
@@ -481,6 +1442,8 @@ export class Leadspicker implements INodeType {
 			...leadFinderInputFields,
 			...linkedinActivityFields,
 			...leadFinderFields,
+			...webhookFields,
+			...requestOptionsFields,
 		],
 	};
 
@@ -559,39 +1522,17 @@ export class Leadspicker implements INodeType {
 					'project',
 					i,
 				);
-				const pageSize = DEFAULT_PAGE_SIZE;
-				let page = 1;
-				const persons: IDataObject[] = [];
-
-				for (let iteration = 0; iteration < 1000; iteration++) {
-					const qs: IDataObject = { project_id: campaignId, page_size: pageSize, page };
-					const response = (await leadspickerApiRequest.call(
-						context,
-						'GET',
-						`/persons-simple`,
-						{},
-						qs,
-					)) as IDataObject;
-
-					const chunk = Array.isArray(response?.items)
-						? (response.items as IDataObject[])
-						: Array.isArray(response?.results)
-							? (response.results as IDataObject[])
-							: Array.isArray(response)
-								? (response as IDataObject[])
-								: [];
-
-					if (!chunk.length) break;
-					persons.push(...chunk);
-
-					if (typeof response?.count === 'number') {
-						if (persons.length >= response.count) break;
-					} else if (chunk.length < pageSize) {
-						break;
-					}
-
-					page += 1;
-				}
+				const persons = await leadspickerApiRequestAllItems.call(
+					context,
+					'GET',
+					'/persons-simple',
+					{},
+					{ project_id: campaignId },
+					Leadspicker.getListPagination(context, i, {
+						strategy: 'page',
+						pageSize: DEFAULT_PAGE_SIZE,
+					}),
+				);
 
 				return Leadspicker.flattenLeadPayload(persons);
 			}
@@ -658,7 +1599,10 @@ export class Leadspicker implements INodeType {
 			}
 			case 'create':
 			case 'update': {
-				const body = Leadspicker.buildLeadPayload(context, i);
+				const inputMode = context.getNodeParameter('leadInputMode', i, 'fields') as
+					| 'fields'
+					| 'mapper';
+				const body = Leadspicker.buildLeadPayload(context, i, inputMode);
 
 				if (operation === 'create') {
 					body.project_id = Leadspicker.getIdFromOptionOrManual(
@@ -668,7 +1612,14 @@ export class Leadspicker implements INodeType {
 						'project',
 						i,
 					);
+					const hint = await Leadspicker.checkCustomFieldKeys(
+						context,
+						i,
+						body,
+						body.project_id as number,
+					);
 					const response = await leadspickerApiRequest.call(context, 'POST', '/persons', body);
+					if (hint) context.addExecutionHints(hint);
 					return Leadspicker.flattenLeadPayload(response);
 				} else {
 					const leadId = Leadspicker.getIdFromOptionOrManual(
@@ -678,15 +1629,156 @@ export class Leadspicker implements INodeType {
 						'person',
 						i,
 					);
+					const lookupCampaignId = Leadspicker.tryGetIdFromParameters(
+						{
+							personLookupProjectId: context.getNodeParameter('personLookupProjectId', i, ''),
+							personLookupProjectIdManual: context.getNodeParameter(
+								'personLookupProjectIdManual',
+								i,
+								0,
+							),
+						},
+						'personLookupProjectId',
+						'personLookupProjectIdManual',
+					);
+					const hint = await Leadspicker.checkCustomFieldKeys(
+						context,
+						i,
+						body,
+						lookupCampaignId,
+						leadId,
+					);
 					const response = await leadspickerApiRequest.call(
 						context,
 						'PATCH',
 						`/persons/${leadId}`,
 						body,
 					);
+					if (hint) context.addExecutionHints(hint);
 					return Leadspicker.flattenLeadPayload(response);
 				}
 			}
+			case 'upsert': {
+				const campaignId = Leadspicker.getIdFromOptionOrManual(
+					context,
+					'projectId',
+					'projectIdManual',
+					'project',
+					i,
+				);
+				const body = Leadspicker.buildLeadPayload(context, i);
+				const hint = await Leadspicker.checkCustomFieldKeys(context, i, body, campaignId);
+				const matchBy = context.getNodeParameter('upsertMatchBy', i, []) as string[];
+				const identifiers: Array<[string, string]> = [];
+				for (const key of matchBy) {
+					const value = Leadspicker.normalizeLeadIdentifier(key, body[key]);
+					if (value !== undefined) {
+						identifiers.push([key, value]);
+					}
+				}
+				if (!identifiers.length) {
+					throw new NodeOperationError(
+						context.getNode(),
+						'Please provide a value for at least one of the "Match By" fields.',
+					);
+				}
+
+				const existing = await Leadspicker.findLeadByIdentifiers(context, campaignId, identifiers);
+				const existingId = Leadspicker.toNumericId(existing?.id);
+				if (existingId !== undefined) {
+					const response = await leadspickerApiRequest.call(
+						context,
+						'PATCH',
+						`/persons/${existingId}`,
+						body,
+					);
+					const lead = Leadspicker.flattenLeadPayload(response) as IDataObject;
+					if (hint) context.addExecutionHints(hint);
+					Leadspicker.indexLead(await Leadspicker.getLeadIndex(context, campaignId), {
+						...body,
+						...lead,
+					});
+					return { action: 'updated', ...lead };
+				}
+				body.project_id = campaignId;
+				const response = await leadspickerApiRequest.call(context, 'POST', '/persons', body);
+				const lead = Leadspicker.flattenLeadPayload(response) as IDataObject;
+				if (hint) context.addExecutionHints(hint);
+				// Later items with the same identifiers update this lead instead of creating another.
+				Leadspicker.indexLead(await Leadspicker.getLeadIndex(context, campaignId), {
+					...body,
+					...lead,
+				});
+				return { action: 'created', ...lead };
+			}
+			case 'move':
+			case 'copy': {
+				const leadId = Leadspicker.getIdFromOptionOrManual(
+					context,
+					'personId',
+					'personIdManual',
+					'person',
+					i,
+				);
+				const targetCampaignId = Leadspicker.getIdFromOptionOrManual(
+					context,
+					'targetProjectId',
+					'targetProjectIdManual',
+					'target campaign',
+					i,
+				);
+				const excludeFromSource = context.getNodeParameter(
+					'excludeFromSource',
+					i,
+					false,
+				) as boolean;
+
+				const lead = Leadspicker.coerceToDataObject(
+					await leadspickerApiRequest.call(context, 'GET', `/persons/${leadId}`),
+				);
+				const sourceCampaignId = Leadspicker.toNumericId(lead.project_id);
+				const body = Leadspicker.buildLeadCopyPayload(lead);
+				const exclusionEntries = [body.linkedin, body.email].filter(
+					(value): value is string => typeof value === 'string' && value.trim() !== '',
+				);
+				if (excludeFromSource && (sourceCampaignId === undefined || !exclusionEntries.length)) {
+					throw new NodeOperationError(
+						context.getNode(),
+						'The lead has no campaign, LinkedIn URL or email to add to the source exclusion list.',
+					);
+				}
+
+				const created = Leadspicker.coerceToDataObject(
+					await leadspickerApiRequest.call(context, 'POST', '/persons', {
+						...body,
+						project_id: targetCampaignId,
+					}),
+				);
+				if (excludeFromSource) {
+					await leadspickerApiRequest.call(
+						context,
+						'PUT',
+						`/projects/${sourceCampaignId}/blacklist-text`,
+						{ data: exclusionEntries.join('\n') },
+						{ append: true },
+					);
+				}
+				if (operation === 'move') {
+					await leadspickerApiRequest.call(context, 'DELETE', `/persons/${leadId}`);
+				}
+				return {
+					new_lead_id: Leadspicker.toNumberOrNull(created.id),
+					source_lead_id: leadId,
+					source_campaign_id: sourceCampaignId ?? null,
+					target_campaign_id: targetCampaignId,
+					source_deleted: operation === 'move',
+					excluded_from_source: excludeFromSource,
+					lead: Leadspicker.flattenLeadPayload(created) as IDataObject,
+				};
+			}
+			case 'search': {
+				return Leadspicker.searchLeads(context, i);
+			}
 			case 'byCompanyLinkedin':
 			case 'byCompanyName': {
 				return Leadspicker.handleLeadFinderOperations(context, i);
@@ -702,6 +1794,61 @@ export class Leadspicker implements INodeType {
 				const response = await leadspickerApiRequest.call(context, 'GET', `/persons/${leadId}`);
 				return Leadspicker.flattenLeadPayload(response);
 			}
+			case 'getSequenceStatus': {
+				const leadId = Leadspicker.getIdFromOptionOrManual(
+					context,
+					'personId',
+					'personIdManual',
+					'person',
+					i,
+				);
+				const response = await leadspickerApiRequest.call(
+					context,
+					'GET',
+					`/persons/${leadId}/sequence`,
+				);
+				return Leadspicker.formatSequenceStatus(leadId, response);
+			}
+			case 'pauseSequence':
+			case 'resumeSequence':
+			case 'stopSequence': {
+				const leadId = Leadspicker.getIdFromOptionOrManual(
+					context,
+					'personId',
+					'personIdManual',
+					'person',
+					i,
+				);
+				const { path, status } = SEQUENCE_ACTIONS[operation];
+				const response = await leadspickerApiRequest.call(
+					context,
+					'POST',
+					`/persons/${leadId}/sequence/${path}`,
+				);
+				return Leadspicker.formatSequenceStatus(leadId, response, status);
+			}
+			case 'markReplied': {
+				const leadId = Leadspicker.getIdFromOptionOrManual(
+					context,
+					'personId',
+					'personIdManual',
+					'person',
+					i,
+				);
+				const sentiment = context.getNodeParameter('replySentiment', i, 'interested') as string;
+				const response = await leadspickerApiRequest.call(
+					context,
+					'POST',
+					`/persons/${leadId}/mark-replied`,
+					{ sentiment },
+				);
+				return {
+					lead_id: leadId,
+					replied: true,
+					sentiment,
+					...(isPlainObject(response) ? (response as IDataObject) : {}),
+				};
+			}
 			case 'delete': {
 				const leadId = Leadspicker.getIdFromOptionOrManual(
 					context,
@@ -824,14 +1971,7 @@ export class Leadspicker implements INodeType {
 						`/projects/${campaignId}/blacklist-text`,
 					);
 				} catch (error) {
-					const httpCode =
-						typeof error === 'object' && error !== null && 'httpCode' in error
-							? (error as { httpCode?: string | number }).httpCode
-							: undefined;
-					if (
-						(typeof httpCode === 'string' && httpCode === '404') ||
-						(typeof httpCode === 'number' && httpCode === 404)
-					) {
+					if (getStatusCode(error) === 404) {
 						return [
 							{
 								matched_emails_count: 0,
@@ -875,57 +2015,40 @@ export class Leadspicker implements INodeType {
 					i,
 					[],
 				) as string[];
-				const queryParts: string[] = [`page=1`, `page_size=${DEFAULT_PAGE_SIZE}`];
-				const addParam = (key: string, value: string | number) => {
-					queryParts.push(`${key}=${encodeURIComponent(value.toString())}`);
-				};
+				const query: IDataObject = {};
 				if (typeof search === 'string' && search.trim() !== '') {
-					addParam('search', search.trim());
+					query.search = search.trim();
 				}
 				if (typeof startDate === 'string' && startDate.trim() !== '') {
-					addParam('start_date', startDate.trim());
+					query.start_date = startDate.trim();
 				}
 				if (typeof endDate === 'string' && endDate.trim() !== '') {
-					addParam('end_date', endDate.trim());
+					query.end_date = endDate.trim();
 				}
 				if (personId !== undefined) {
-					addParam('person_id', personId);
+					query.person_id = personId;
 				}
 				if (Array.isArray(eventTypes)) {
-					for (const type of eventTypes) {
-						if (typeof type === 'string' && type.trim() !== '') {
-							addParam('event_types', type);
-						}
-					}
+					query.event_types = eventTypes.filter(
+						(type) => typeof type === 'string' && type.trim() !== '',
+					);
 				}
 				if (Array.isArray(outreachStepTypes)) {
-					for (const type of outreachStepTypes) {
-						if (typeof type === 'string') {
-							addParam('outreach_step_types', type);
-						}
-					}
-				}
-				let path = `/projects/${campaignId}/events`;
-				if (queryParts.length > 0) {
-					path += `?${queryParts.join('&')}`;
+					query.outreach_step_types = outreachStepTypes.filter((type) => typeof type === 'string');
 				}
-				const response = (await leadspickerApiRequest.call(
-					context,
-					'GET',
-					path,
-					{},
-					{},
-				)) as IDataObject;
-				if (Array.isArray(response?.results)) {
-					return response.results as IDataObject[];
-				}
-				if (Array.isArray(response?.items)) {
-					return response.items as IDataObject[];
-				}
-				if (Array.isArray(response)) {
-					return response as IDataObject[];
-				}
-				return [];
+				const options = context.getNodeParameter('projectLogOptions', i, {}) as IDataObject;
+				const pagination = Leadspicker.getListPagination(context, i, {
+					strategy: 'page',
+					pageSize: DEFAULT_PAGE_SIZE,
+				});
+				const sinceEventId = Leadspicker.toNumericId(options.sinceEventId);
+				return getCampaignEvents.call(context, campaignId, query, {
+					sinceEventId: sinceEventId && sinceEventId > 0 ? sinceEventId : undefined,
+					sinceTimestamp: options.sinceTimestamp as string | undefined,
+					sort: options.sort === 'oldestFirst' ? 'oldestFirst' : 'newestFirst',
+					limit: pagination.limit,
+					pageSize: pagination.pageSize,
+				});
 			}
 			default:
 				throw new NodeOperationError(
@@ -943,77 +2066,19 @@ export class Leadspicker implements INodeType {
 
 		if (operation === 'list') {
 			const filters = context.getNodeParameter('replyFilters', i) as IDataObject;
-			const rawQueryParts: string[] = [];
-
-			const emailAccountsFilter = filters.email_accounts as IEmailAccountsFilter;
-			if (emailAccountsFilter?.email?.length) {
-				const emailAccounts = emailAccountsFilter.email
-					.map((item) => item.address)
-					.filter((address) => address && address.trim() !== '');
-				emailAccounts.forEach((email) =>
-					rawQueryParts.push(`email_accounts=${encodeURIComponent(email)}`),
-				);
-			}
-
-			const campaignsFilter = filters.projects as ICampaignsFilter;
-			if (campaignsFilter?.project?.length) {
-				campaignsFilter.project
-					.map((item) => {
-						if (item.id === MANUAL_ID_OPTION) {
-							return Leadspicker.toNumericId(item.idManual);
-						}
-						return Leadspicker.toNumericId(item.id);
-					})
-					.filter((id): id is number => id !== undefined)
-					.forEach((id) => rawQueryParts.push(`projects=${encodeURIComponent(id)}`));
-			}
-
-			const sentimentFilter = filters.sentiment as ISentimentFilter;
-			if (sentimentFilter?.sentiment_value?.length) {
-				const sentimentValues = sentimentFilter.sentiment_value
-					.map((item) => item.type)
-					.filter((type) => type && type.trim() !== '');
-				sentimentValues.forEach((val) =>
-					rawQueryParts.push(`sentiment=${encodeURIComponent(val)}`),
-				);
-			}
-
-			const baseQueryParts = rawQueryParts;
-			const limit = DEFAULT_PAGE_SIZE;
-			let offset = 0;
-			const replies: IDataObject[] = [];
-
-			for (let iteration = 0; iteration < 1000; iteration++) {
-				const queryParts = [...baseQueryParts, `limit=${limit}`, `offset=${offset}`];
-				let path = '/inbound-messages';
-				if (queryParts.length > 0) path += '?' + queryParts.join('&');
-
-				const response = (await leadspickerApiRequest.call(
-					context,
-					'GET',
-					path,
-					{},
-					{},
-				)) as IDataObject;
-
-				const chunk = Array.isArray(response?.items)
-					? (response.items as IDataObject[])
-					: Array.isArray(response?.results)
-						? (response.results as IDataObject[])
-						: Array.isArray(response)
-							? (response as IDataObject[])
-							: [];
-
-				if (!chunk.length) break;
-				replies.push(...chunk);
-
-				if (typeof response?.count === 'number' && replies.length >= response.count) break;
-				if (chunk.length < limit) break;
-
-				offset += limit;
-			}
-
-			return replies;
+			const query = buildReplyQuery(filters);
+
+			return leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/inbound-messages',
+				{},
+				query,
+				Leadspicker.getListPagination(context, i, {
+					strategy: 'offset',
+					pageSize: DEFAULT_PAGE_SIZE,
+				}),
+			);
 		}
 
 		throw new NodeOperationError(
@@ -1217,27 +2282,14 @@ export class Leadspicker implements INodeType {
 					deduplicate: (options.deduplicate as boolean) ?? false,
 				};
 
-				let cursor: string | null = null;
-				const results: IDataObject[] = [];
-
-				for (let iter = 0; iter < 1000; iter++) {
-					const body: IDataObject = { ...baseBody };
-					if (cursor) body.cursor = cursor;
-					const response = (await leadspickerApiRequest.call(
-						context,
-						'POST',
-						'/utils/linkedin-profile-posts-reactors-search',
-						body,
-					)) as { results?: IDataObject[]; next_cursor?: string | null };
-
-					const chunk = Array.isArray(response?.results) ? (response.results as IDataObject[]) : [];
-					if (!chunk.length) break;
-					results.push(...chunk);
-					cursor = (response?.next_cursor as string | null) ?? null;
-					if (!cursor) break;
-				}
-
-				return results;
+				return leadspickerApiRequestAllItems.call(
+					context,
+					'POST',
+					'/utils/linkedin-profile-posts-reactors-search',
+					baseBody,
+					{},
+					Leadspicker.getListPagination(context, i, { strategy: 'cursor', itemsKey: 'results' }),
+				);
 			}
 			case 'profilesPostReactors': {
 				const profilesList = context.getNodeParameter('profilesList', i, {}) as {
@@ -1273,27 +2325,14 @@ export class Leadspicker implements INodeType {
 					deduplicate: (options.deduplicate as boolean) ?? false,
 				};
 
-				let cursor: string | null = null;
-				const results: IDataObject[] = [];
-
-				for (let iter = 0; iter < 1000; iter++) {
-					const body: IDataObject = { ...baseBody };
-					if (cursor) body.cursor = cursor;
-					const response = (await leadspickerApiRequest.call(
-						context,
-						'POST',
-						'/utils/linkedin-profile-posts-reactors-profiles',
-						body,
-					)) as { results?: IDataObject[]; next_cursor?: string | null };
-
-					const chunk = Array.isArray(response?.results) ? (response.results as IDataObject[]) : [];
-					if (!chunk.length) break;
-					results.push(...chunk);
-					cursor = (response?.next_cursor as string | null) ?? null;
-					if (!cursor) break;
-				}
-
-				return results;
+				return leadspickerApiRequestAllItems.call(
+					context,
+					'POST',
+					'/utils/linkedin-profile-posts-reactors-profiles',
+					baseBody,
+					{},
+					Leadspicker.getListPagination(context, i, { strategy: 'cursor', itemsKey: 'results' }),
+				);
 			}
 			default:
 				throw new NodeOperationError(
@@ -1419,12 +2458,192 @@ export class Leadspicker implements INodeType {
 		}
 	}
 
+	private static getWebhookProjectIds(context: IExecuteFunctions, value: unknown): number[] {
+		const values = Array.isArray(value)
+			? value
+			: value === undefined || value === ''
+				? []
+				: [value];
+		return values.map((entry) =>
+			Leadspicker.getIdOrThrow(context, entry as NodeParameterValueType, 'campaign'),
+		);
+	}
+
+	/** Request body of a webhook from the Create and Check and Repair Webhook fields. */
+	private static buildWebhookBody(context: IExecuteFunctions, i: number): IDataObject {
+		const features = context.getNodeParameter('webhookFeatures', i, []) as string[];
+		if (!features.length) {
+			throw new NodeOperationError(context.getNode(), 'Please select at least one event.');
+		}
+		const additionalFields = context.getNodeParameter(
+			'webhookAdditionalFields',
+			i,
+			{},
+		) as IDataObject;
+		const body: IDataObject = {
+			name: (context.getNodeParameter('webhookName', i) as string).trim(),
+			url: (context.getNodeParameter('webhookUrl', i) as string).trim(),
+			features,
+		};
+		const projectIds = Leadspicker.getWebhookProjectIds(
+			context,
+			context.getNodeParameter('webhookProjectIds', i, []),
+		);
+		if (projectIds.length) {
+			body.project_ids = projectIds;
+		}
+		if (typeof additionalFields.secret === 'string' && additionalFields.secret !== '') {
+			body.secret = additionalFields.secret;
+		}
+		if (additionalFields.fireTestPayload === true) {
+			body.fire_test_payload = true;
+		}
+		return body;
+	}
+
+	/**
+	 * Handles operations for the 'Webhook' resource.
+	 */
+	private static async handleWebhookOperations(
+		context: IExecuteFunctions,
+		i: number,
+	): Promise<any> {
+		const operation = context.getNodeParameter('operation', i) as string;
+
+		switch (operation) {
+			case 'create': {
+				const body = Leadspicker.buildWebhookBody(context, i);
+				return leadspickerApiRequest.call(context, 'POST', '/webhooks', body);
+			}
+			case 'repair': {
+				const body = Leadspicker.buildWebhookBody(context, i);
+				const [existing] = await getWebhooksForUrl.call(context, body.url as string);
+				if (existing) {
+					return { ...existing, status: 'active' };
+				}
+				const response = await leadspickerApiRequest.call(context, 'POST', '/webhooks', body);
+				context.addExecutionHints({
+					message: `No webhook delivered to ${body.url}, so it was re-created.`,
+					type: 'warning',
+					location: 'outputPane',
+				});
+				return { ...Leadspicker.coerceToDataObject(response), status: 'recreated' };
+			}
+			case 'delete': {
+				const webhookId = Leadspicker.getIdOrThrow(
+					context,
+					context.getNodeParameter('webhookId', i) as NodeParameterValueType,
+					'webhook',
+				);
+				await leadspickerApiRequest.call(context, 'DELETE', `/webhooks/${webhookId}`);
+				return [{ id: webhookId, deleted: true }];
+			}
+			case 'get': {
+				const webhookId = Leadspicker.getIdOrThrow(
+					context,
+					context.getNodeParameter('webhookId', i) as NodeParameterValueType,
+					'webhook',
+				);
+				return leadspickerApiRequest.call(context, 'GET', `/webhooks/${webhookId}`);
+			}
+			case 'list': {
+				const filters = context.getNodeParameter('webhookFilters', i, {}) as IDataObject;
+				const nameFilter =
+					typeof filters.name === 'string' ? filters.name.trim().toLowerCase() : '';
+				const urlFilter = typeof filters.url === 'string' ? filters.url.trim().toLowerCase() : '';
+				const response = await leadspickerApiRequest.call(context, 'GET', '/webhooks');
+				const webhooks = extractListItems(response).filter((webhook) => {
+					if (nameFilter && !`${webhook.name ?? ''}`.toLowerCase().includes(nameFilter)) {
+						return false;
+					}
+					if (urlFilter && !`${webhook.url ?? ''}`.toLowerCase().includes(urlFilter)) {
+						return false;
+					}
+					return (
+						!filters.feature ||
+						(Array.isArray(webhook.features) &&
+							(webhook.features as unknown[]).includes(filters.feature))
+					);
+				});
+				const { limit } = Leadspicker.getListPagination(context, i, { strategy: 'page' });
+				return limit === undefined ? webhooks : webhooks.slice(0, limit);
+			}
+			case 'testFire': {
+				const webhookId = Leadspicker.getIdOrThrow(
+					context,
+					context.getNodeParameter('webhookId', i) as NodeParameterValueType,
+					'webhook',
+				);
+				return leadspickerApiRequest.call(context, 'PATCH', `/webhooks/${webhookId}`, {
+					fire_test_payload: true,
+				});
+			}
+			case 'update': {
+				const webhookId = Leadspicker.getIdOrThrow(
+					context,
+					context.getNodeParameter('webhookId', i) as NodeParameterValueType,
+					'webhook',
+				);
+				const updateFields = context.getNodeParameter('webhookUpdateFields', i, {}) as IDataObject;
+				const body: IDataObject = {};
+				if (typeof updateFields.webhookName === 'string' && updateFields.webhookName.trim()) {
+					body.name = updateFields.webhookName.trim();
+				}
+				if (typeof updateFields.webhookUrl === 'string' && updateFields.webhookUrl.trim()) {
+					body.url = updateFields.webhookUrl.trim();
+				}
+				if (Array.isArray(updateFields.webhookFeatures) && updateFields.webhookFeatures.length) {
+					body.features = updateFields.webhookFeatures;
+				}
+				if (updateFields.webhookProjectIds !== undefined) {
+					body.project_ids = Leadspicker.getWebhookProjectIds(
+						context,
+						updateFields.webhookProjectIds,
+					);
+				}
+				if (!Object.keys(body).length) {
+					throw new NodeOperationError(
+						context.getNode(),
+						'Please add at least one field to update.',
+					);
+				}
+				return leadspickerApiRequest.call(context, 'PATCH', `/webhooks/${webhookId}`, body);
+			}
+			default:
+				throw new NodeOperationError(
+					context.getNode(),
+					`The operation "${operation}" is not supported for Webhook resource.`,
+				);
+		}
+	}
+
 	/**
 	 * The main execute method for the node.
 	 */
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		const items = this.getInputData();
 		const returnData: INodeExecutionData[] = [];
+		const unprocessedData: INodeExecutionData[] = [];
+		const quotaBehavior = getDailyQuotaBehavior(
+			this.getNodeParameter('requestOptions', 0, {}) as IDataObject,
+		);
+
+		if (this.getNodeParameter('resource', 0) === 'person') {
+			// Bulk operations send the leads of all input items together instead of running per item.
+			const operation = this.getNodeParameter('operation', 0) as string;
+			const batch =
+				operation === 'bulkCreate' &&
+				this.getNodeParameter('bulkInputMode', 0, 'define') === 'items'
+					? await Leadspicker.bulkCreateFromItems(this, items, quotaBehavior)
+					: operation === 'bulkUpdate' || operation === 'bulkDelete'
+						? await Leadspicker.bulkChangeLeads(this, items, operation, quotaBehavior)
+						: undefined;
+			if (batch) {
+				return quotaBehavior === 'outputUnprocessed'
+					? [batch.processed, batch.unprocessed]
+					: [batch.processed];
+			}
+		}
 
 		for (let i = 0; i < items.length; i++) {
 			try {
@@ -1453,6 +2672,9 @@ export class Leadspicker implements INodeType {
 					case 'outreach':
 						responseData = await Leadspicker.handleOutreachOperations(this, i);
 						break;
+					case 'webhook':
+						responseData = await Leadspicker.handleWebhookOperations(this, i);
+						break;
 					default:
 						throw new NodeOperationError(
 							this.getNode(),
@@ -1466,9 +2688,15 @@ export class Leadspicker implements INodeType {
 				);
 				returnData.push(...executionData);
 			} catch (error) {
+				if (quotaBehavior === 'outputUnprocessed' && isDailyQuotaExhaustedError(error)) {
+					for (let remaining = i; remaining < items.length; remaining++) {
+						unprocessedData.push({ ...items[remaining], pairedItem: { item: remaining } });
+					}
+					break;
+				}
 				if (this.continueOnFail()) {
 					const executionData = this.helpers.constructExecutionMetaData(
-						this.helpers.returnJsonArray({ error: error.message }),
+						this.helpers.returnJsonArray(getErrorOutput(error)),
 						{ itemData: { item: i } },
 					);
 					returnData.push(...executionData);
@@ -1478,6 +2706,9 @@ export class Leadspicker implements INodeType {
 			}
 		}
 
+		if (quotaBehavior === 'outputUnprocessed') {
+			return [returnData, unprocessedData];
+		}
 		return [returnData];
 	}
 }
@@ -0,0 +1,381 @@
+import type {
+	IDataObject,
+	ILoadOptionsFunctions,
+	INodeExecutionData,
+	INodePropertyOptions,
+	INodeType,
+	INodeTypeDescription,
+	IPollFunctions,
+	NodeConnectionType,
+	NodeParameterValueType,
+} from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+import {
+	DEFAULT_PAGE_SIZE,
+	buildReplyQuery,
+	getCampaignEvents,
+	getEventId,
+	getEventTimestamp,
+	leadspickerApiRequest,
+	leadspickerApiRequestAllItems,
+	sortEvents,
+} from './GenericFunctions';
+import {
+	MANUAL_ID_OPTION,
+	OUTREACH_STEP_TYPE_OPTIONS,
+	TIMELINE_EVENT_TYPE_OPTIONS,
+	replyFilterOptions,
+} from './descriptions';
+
+// Replies can show up late with an earlier timestamp, so every poll re-reads this
+// window before the newest reply seen and skips the IDs it has already emitted.
+const REPLY_OVERLAP_MS = 10 * 60_000;
+const MAX_SEEN_REPLY_IDS = 500;
+
+interface IEventCursor extends IDataObject {
+	campaignId?: number;
+	lastEventId?: number;
+	lastTimestamp?: string;
+}
+
+interface IReplyCursor extends IDataObject {
+	lastId?: number;
+	lastTimestamp?: string;
+	seenIds?: number[];
+}
+
+interface IPollStaticData extends IEventCursor {
+	replies?: IReplyCursor;
+}
+
+function toNumericId(value: unknown): number | undefined {
+	if (typeof value === 'number' && Number.isFinite(value)) {
+		return value;
+	}
+	if (typeof value === 'string' && value.trim() !== '') {
+		const parsed = Number(value);
+		return Number.isNaN(parsed) ? undefined : parsed;
+	}
+	return undefined;
+}
+
+function getCampaignId(context: IPollFunctions): number {
+	const selection = context.getNodeParameter('projectId') as NodeParameterValueType;
+	const id =
+		selection === MANUAL_ID_OPTION
+			? toNumericId(context.getNodeParameter('projectIdManual'))
+			: toNumericId(selection);
+	if (id === undefined) {
+		throw new NodeOperationError(context.getNode(), 'Please select a campaign.');
+	}
+	return id;
+}
+
+function getEventsQuery(context: IPollFunctions): IDataObject {
+	const eventTypes = context.getNodeParameter('eventTypes', []) as string[];
+	const outreachStepTypes = context.getNodeParameter('outreachStepTypes', []) as string[];
+	const query: IDataObject = {};
+	if (Array.isArray(eventTypes) && eventTypes.length) {
+		query.event_types = eventTypes.filter((type) => typeof type === 'string' && type.trim() !== '');
+	}
+	if (Array.isArray(outreachStepTypes) && outreachStepTypes.length) {
+		query.outreach_step_types = outreachStepTypes.filter((type) => typeof type === 'string');
+	}
+	return query;
+}
+
+/**
+ * Moves the cursor past the given events. Events are compared by ID when the
+ * API returns one, by timestamp otherwise.
+ */
+function advanceCursor(cursor: IEventCursor, events: IDataObject[]) {
+	for (const event of events) {
+		const id = getEventId(event);
+		if (id !== undefined && id > (cursor.lastEventId ?? 0)) {
+			cursor.lastEventId = id;
+		}
+		const timestamp = getEventTimestamp(event);
+		if (
+			timestamp !== undefined &&
+			(cursor.lastTimestamp === undefined || timestamp > Date.parse(cursor.lastTimestamp))
+		) {
+			cursor.lastTimestamp = new Date(timestamp).toISOString();
+		}
+	}
+}
+
+function isInReplyWindow(reply: IDataObject, cursor: IReplyCursor): boolean {
+	const timestamp = getEventTimestamp(reply);
+	if (timestamp !== undefined) {
+		return (
+			cursor.lastTimestamp === undefined ||
+			timestamp >= Date.parse(cursor.lastTimestamp) - REPLY_OVERLAP_MS
+		);
+	}
+	const id = getEventId(reply);
+	return id === undefined || id > (cursor.lastId ?? 0);
+}
+
+function recordReplies(cursor: IReplyCursor, replies: IDataObject[]) {
+	const seenIds = [...(cursor.seenIds ?? [])];
+	for (const reply of replies) {
+		const id = getEventId(reply);
+		if (id !== undefined) {
+			seenIds.push(id);
+			if (id > (cursor.lastId ?? 0)) {
+				cursor.lastId = id;
+			}
+		}
+		const timestamp = getEventTimestamp(reply);
+		if (
+			timestamp !== undefined &&
+			(cursor.lastTimestamp === undefined || timestamp > Date.parse(cursor.lastTimestamp))
+		) {
+			cursor.lastTimestamp = new Date(timestamp).toISOString();
+		}
+	}
+	cursor.seenIds = seenIds.slice(-MAX_SEEN_REPLY_IDS);
+}
+
+async function pollCampaignEvents(
+	this: IPollFunctions,
+	staticData: IPollStaticData,
+): Promise<IDataObject[] | null> {
+	const campaignId = getCampaignId(this);
+	const query = getEventsQuery(this);
+
+	// Manual runs show the latest matching event so the output can be mapped.
+	if (this.getMode() === 'manual') {
+		return getCampaignEvents.call(this, campaignId, query, { limit: 1 });
+	}
+
+	if (staticData.campaignId !== campaignId) {
+		// First activation (or a different campaign): start from the newest event
+		// instead of replaying the whole history.
+		const latest = await getCampaignEvents.call(this, campaignId, query, { limit: 1 });
+		staticData.campaignId = campaignId;
+		staticData.lastEventId = 0;
+		delete staticData.lastTimestamp;
+		advanceCursor(staticData, latest);
+		return null;
+	}
+
+	const events = await getCampaignEvents.call(this, campaignId, query, {
+		sinceEventId: staticData.lastEventId || undefined,
+		sinceTimestamp: staticData.lastEventId ? undefined : staticData.lastTimestamp,
+		sort: 'oldestFirst',
+	});
+	advanceCursor(staticData, events);
+	return events;
+}
+
+/**
+ * Polls `/inbound-messages`, which lists the newest replies first, and stops
+ * paging once a reply falls before the overlap window.
+ */
+async function pollReplies(
+	this: IPollFunctions,
+	staticData: IPollStaticData,
+): Promise<IDataObject[] | null> {
+	const query = buildReplyQuery(this.getNodeParameter('replyFilters', {}) as IDataObject);
+
+	if (this.getMode() === 'manual' || staticData.replies === undefined) {
+		const latest = await leadspickerApiRequestAllItems.call(
+			this,
+			'GET',
+			'/inbound-messages',
+			{},
+			query,
+			{
+				strategy: 'offset',
+				pageSize: 1,
+				limit: 1,
+			},
+		);
+		if (this.getMode() === 'manual') {
+			return latest;
+		}
+		// First activation: remember the newest reply instead of emitting the inbox.
+		staticData.replies = { lastId: 0, seenIds: [] };
+		recordReplies(staticData.replies, latest);
+		return null;
+	}
+
+	const cursor = staticData.replies;
+	const replies = await leadspickerApiRequestAllItems.call(
+		this,
+		'GET',
+		'/inbound-messages',
+		{},
+		query,
+		{
+			strategy: 'offset',
+			pageSize: DEFAULT_PAGE_SIZE,
+			stopWhen: (reply) => !isInReplyWindow(reply, cursor),
+		},
+	);
+	const seenIds = new Set(cursor.seenIds ?? []);
+	const unseen = replies.filter((reply) => {
+		const id = getEventId(reply);
+		return isInReplyWindow(reply, cursor) && (id === undefined || !seenIds.has(id));
+	});
+	recordReplies(cursor, unseen);
+	return sortEvents(unseen, 'oldestFirst');
+}
+
+export class LeadspickerPollingTrigger implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Leadspicker Polling Trigger',
+		name: 'leadspickerPollingTrigger',
+		icon: 'file:logo_leadspicker.svg',
+		group: ['trigger'],
+		version: 1,
+		description: 'Poll Leadspicker for new campaign log events or replies',
+		defaults: {
+			name: 'Leadspicker Polling Trigger',
+		},
+		polling: true,
+		inputs: [],
+		outputs: ['main' as NodeConnectionType],
+		credentials: [
+			{
+				name: 'leadspickerApi',
+				required: true,
+			},
+		],
+		properties: [
+			{
+				displayName: 'Watch',
+				name: 'watch',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Campaign Log Events',
+						value: 'campaignEvents',
+						description: 'New timeline events of a campaign',
+					},
+					{
+						name: 'New Replies',
+						value: 'replies',
+						description: 'New inbound email and LinkedIn replies',
+					},
+				],
+				default: 'campaignEvents',
+			},
+			{
+				displayName: 'Campaign Name or ID',
+				name: 'projectId',
+				type: 'options',
+				required: true,
+				displayOptions: {
+					show: {
+						watch: ['campaignEvents'],
+					},
+				},
+				default: '',
+				options: [
+					{ name: 'Select a campaign...', value: '' },
+					{ name: 'Enter Campaign ID manually...', value: MANUAL_ID_OPTION },
+				],
+				typeOptions: {
+					loadOptionsMethod: 'getCampaigns',
+				},
+				description:
+					'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+			},
+			{
+				displayName: 'Campaign ID',
+				name: 'projectIdManual',
+				type: 'number',
+				required: true,
+				displayOptions: {
+					show: {
+						watch: ['campaignEvents'],
+						projectId: [MANUAL_ID_OPTION],
+					},
+				},
+				default: 0,
+				description: 'ID of the campaign to watch',
+			},
+			{
+				displayName: 'Event Types',
+				name: 'eventTypes',
+				type: 'multiOptions',
+				options: TIMELINE_EVENT_TYPE_OPTIONS,
+				displayOptions: {
+					show: {
+						watch: ['campaignEvents'],
+					},
+				},
+				default: [],
+				description: 'Only emit these timeline event types. Leave empty to emit every event.',
+			},
+			{
+				displayName: 'Outreach Step Types',
+				name: 'outreachStepTypes',
+				type: 'multiOptions',
+				options: OUTREACH_STEP_TYPE_OPTIONS,
+				displayOptions: {
+					show: {
+						watch: ['campaignEvents'],
+					},
+				},
+				default: [],
+				description: 'Only emit events of these outreach steps. Leave empty to emit every step.',
+			},
+			{
+				displayName: 'Filters',
+				name: 'replyFilters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						watch: ['replies'],
+					},
+				},
+				options: replyFilterOptions,
+			},
+		],
+	};
+
+	methods = {
+		loadOptions: {
+			async getCampaigns(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const query: IDataObject = { limit: 50 };
+				const response = await leadspickerApiRequest.call(this, 'GET', '/projects', {}, query);
+				const list = Array.isArray(response)
+					? (response as IDataObject[])
+					: Array.isArray((response as IDataObject)?.results)
+						? ((response as IDataObject).results as IDataObject[])
+						: [];
+				const options: INodePropertyOptions[] = [];
+				for (const campaign of list) {
+					const id = toNumericId(campaign?.id as NodeParameterValueType);
+					if (id === undefined) continue;
+					const name =
+						typeof campaign?.name === 'string' && campaign.name.trim() !== ''
+							? campaign.name.trim()
+							: `Campaign #${id}`;
+					options.push({ name, value: id.toString() });
+				}
+				return options;
+			},
+		},
+	};
+
+	async poll(this: IPollFunctions): Promise<INodeExecutionData[][] | null> {
+		const watch = this.getNodeParameter('watch', 'campaignEvents') as string;
+		const staticData = this.getWorkflowStaticData('node') as IPollStaticData;
+		const items =
+			watch === 'replies'
+				? await pollReplies.call(this, staticData)
+				: await pollCampaignEvents.call(this, staticData);
+		if (!items?.length) {
+			return null;
+		}
+		return [this.helpers.returnJsonArray(items)];
+	}
+}
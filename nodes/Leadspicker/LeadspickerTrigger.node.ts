@@ -13,43 +13,52 @@ import type {
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 
-import { isPlainObject, leadspickerApiRequest } from './GenericFunctions';
+import { getCatalogEvent, getSamplePayload } from './EventCatalog';
+import {
+	getStatusCode,
+	getWebhooksForUrl,
+	isPlainObject,
+	leadspickerApiRequest,
+} from './GenericFunctions';
+import {
+	generateWebhookSecret,
+	rememberSignature,
+	verifyWebhookSignature,
+} from './WebhookSignature';
+import {
+	formatVersion1Payload,
+	getDeliveryKey,
+	isTestPayload,
+	matchesWebhookFilters,
+	normalizeWebhookPayload,
+	rememberDelivery,
+} from './WebhookPayloads';
+import type { IWebhookFilters } from './WebhookPayloads';
+import {
+	OUTREACH_STEP_TYPE_OPTIONS,
+	REPLY_SENTIMENT_OPTIONS,
+	WEBHOOK_FEATURE_OPTIONS,
+} from './descriptions';
 
 const MANUAL_ID_OPTION = '__manual__';
 const WEBHOOK_PATH = 'leadspicker';
 const WEBHOOK_NAME_FALLBACK = 'N8N Leadspicker Webhook';
 
-const FEATURE_OPTIONS = [
-	{ name: 'Account Revoked', value: 'account_revoked', description: 'Linked account was revoked' },
-	{
-		name: 'Email Bounced',
-		value: 'email_bounced',
-		description: 'Leadspicker reports a bounced email',
-	},
-	{ name: 'Email Reply', value: 'email_reply', description: 'Reply received on a sent email' },
-	{
-		name: 'Email Sent',
-		value: 'email_sent',
-		description: 'Trigger when Leadspicker delivers an email',
-	},
-	{ name: 'LinkedIn Reply', value: 'linkedin_reply', description: 'Reply received on LinkedIn' },
-	{ name: 'LinkedIn Sent', value: 'linkedin_sent', description: 'LinkedIn outreach sent' },
-	{
-		name: 'Lead Added',
-		value: 'person_added',
-		description: 'Trigger when a new lead is added to the project',
-	},
-] as const;
-
-type FeatureName = (typeof FEATURE_OPTIONS)[number]['value'];
-
 interface WebhookRecord extends IDataObject {
 	id?: number | string | null;
+	name?: string;
 	url?: string;
 	features?: Array<string | null>;
 	project_ids?: Array<number | string | null> | null;
 }
 
+interface ITriggerStaticData extends IDataObject {
+	webhookId?: number;
+	webhookSecret?: string;
+	seenSignatures?: Record<string, number>;
+	seenDeliveries?: Record<string, number>;
+}
+
 function toNumericId(value: unknown): number | undefined {
 	if (typeof value === 'number' && Number.isFinite(value)) {
 		return value;
@@ -61,44 +70,66 @@ function toNumericId(value: unknown): number | undefined {
 	return undefined;
 }
 
-function getProjectIdIfSelected(context: IHookFunctions | IWebhookFunctions): number | undefined {
-	const selection = context.getNodeParameter('projectId') as NodeParameterValueType;
+/**
+ * Version 1 of the trigger subscribed to a single event and campaign; its saved
+ * `feature`, `projectId` and `projectIdManual` parameters are still honored.
+ */
+function isVersion1(context: IHookFunctions | IWebhookFunctions): boolean {
+	return context.getNode().typeVersion === 1;
+}
+
+function getVersion1ProjectIds(
+	context: IHookFunctions | IWebhookFunctions,
+): NodeParameterValueType[] {
+	const selection = context.getNodeParameter('projectId', '') as NodeParameterValueType;
 	if (selection === MANUAL_ID_OPTION) {
-		const manualValue = context.getNodeParameter('projectIdManual');
-		const id = toNumericId(manualValue);
-		if (id === undefined) {
+		const manualValue = context.getNodeParameter('projectIdManual', 0) as NodeParameterValueType;
+		if (toNumericId(manualValue) === undefined) {
 			throw new NodeOperationError(context.getNode(), 'Please enter a valid project ID.');
 		}
-		return id;
+		return [manualValue];
 	}
-	if (selection === undefined || selection === null || selection === '') {
-		return undefined;
-	}
-	const id = toNumericId(selection);
-	if (id === undefined) {
-		throw new NodeOperationError(context.getNode(), 'Please select a project.');
-	}
-	return id;
-}
-
-function getSelectedFeature(context: IHookFunctions | IWebhookFunctions): FeatureName {
-	return context.getNodeParameter('feature') as FeatureName;
+	return [selection];
 }
 
-function normalizeWebhookList(payload: unknown): WebhookRecord[] {
-	if (Array.isArray(payload)) {
-		return payload as WebhookRecord[];
-	}
-	if (typeof payload === 'object' && payload !== null) {
-		const data = payload as IDataObject;
-		if (Array.isArray(data.results)) {
-			return data.results as WebhookRecord[];
+function getSelectedProjectIds(context: IHookFunctions | IWebhookFunctions): number[] {
+	const selection = isVersion1(context)
+		? getVersion1ProjectIds(context)
+		: (context.getNodeParameter('projectIds', []) as NodeParameterValueType);
+	const values = Array.isArray(selection) ? selection : [selection];
+	const ids: number[] = [];
+	for (const value of values) {
+		if (value === undefined || value === null || value === '') continue;
+		const id = toNumericId(value);
+		if (id === undefined) {
+			throw new NodeOperationError(context.getNode(), `"${value}" is not a valid project ID.`);
 		}
-		if (Array.isArray(data.items)) {
-			return data.items as WebhookRecord[];
+		if (!ids.includes(id)) {
+			ids.push(id);
 		}
 	}
-	return [];
+	return ids.sort((a, b) => a - b);
+}
+
+function getSelectedFeatures(context: IHookFunctions | IWebhookFunctions): string[] {
+	const selection = isVersion1(context)
+		? [context.getNodeParameter('feature', '') as string]
+		: (context.getNodeParameter('features', []) as NodeParameterValueType);
+	const values = Array.isArray(selection) ? selection : [selection];
+	const features = values.filter(
+		(value, index): value is string =>
+			typeof value === 'string' &&
+			getCatalogEvent(value)?.webhook === true &&
+			values.indexOf(value) === index,
+	);
+	if (!features.length) {
+		throw new NodeOperationError(context.getNode(), 'Please select at least one event.');
+	}
+	return features.sort();
+}
+
+function isSameSet<T>(left: T[], right: T[]): boolean {
+	return left.length === right.length && left.every((value) => right.includes(value));
 }
 
 function extractWebhookId(record: unknown): number | undefined {
@@ -109,77 +140,183 @@ function extractWebhookId(record: unknown): number | undefined {
 	return toNumericId(record);
 }
 
-function flattenPerson(person: unknown): IDataObject | undefined {
-	if (!isPlainObject(person)) {
-		return undefined;
-	}
-	const flattened: IDataObject = {};
-	const details = isPlainObject(person.person_data)
-		? (person.person_data as IDataObject)
-		: undefined;
-	if (details) {
-		for (const [key, value] of Object.entries(details)) {
-			flattened[key] = value as IDataObject;
+/**
+ * Works out which subscribed event a delivery belongs to. Leadspicker names the
+ * feature in the payload; with a single subscribed event that one is used.
+ */
+function getDeliveredFeature(body: unknown, features: string[]): string | undefined {
+	if (isPlainObject(body)) {
+		for (const key of ['feature', 'event', 'event_type', 'type']) {
+			const value = body[key];
+			if (typeof value === 'string' && features.includes(value)) {
+				return value;
+			}
 		}
 	}
-	for (const [key, value] of Object.entries(person)) {
-		if (key === 'person_data') continue;
-		flattened[key] = value as IDataObject;
-	}
-	return flattened;
+	return features.length === 1 ? features[0] : undefined;
 }
 
-function extractPersonsFromBody(body: unknown): IDataObject[] {
-	const persons: IDataObject[] = [];
-	if (!isPlainObject(body)) {
-		return persons;
+function getWebhookFilters(context: IWebhookFunctions): IWebhookFilters {
+	const filters = context.getNodeParameter('filters', {}) as IDataObject;
+	const customFields = (filters.customFields as IDataObject | undefined)?.field;
+	return {
+		accounts:
+			typeof filters.accounts === 'string'
+				? filters.accounts
+						.split(',')
+						.map((account) => account.trim())
+						.filter((account) => account !== '')
+				: [],
+		customFields: Array.isArray(customFields)
+			? (customFields as Array<{ name: string; value: string }>).filter(
+					(field) => typeof field.name === 'string' && field.name.trim() !== '',
+				)
+			: [],
+		sentiments: Array.isArray(filters.sentiments) ? (filters.sentiments as string[]) : [],
+		stepTypes: Array.isArray(filters.stepTypes) ? (filters.stepTypes as string[]) : [],
+	};
+}
+
+function buildWebhookOutput(this: IWebhookFunctions, features: string[]): IDataObject[] {
+	const request = this.getRequestObject();
+	if (isVersion1(this)) {
+		return formatVersion1Payload(features[0], request.body ?? {});
 	}
-	const personPayload = body.person ?? body.persons;
-	if (Array.isArray(personPayload)) {
-		for (const entry of personPayload) {
-			const flattened = flattenPerson(entry);
-			if (flattened) {
-				persons.push(flattened);
-			}
-		}
-	} else {
-		const flattened = flattenPerson(personPayload ?? body);
-		if (flattened) {
-			persons.push(flattened);
-		}
+	const filters = this.getNodeParameter('filters', {}) as IDataObject;
+	if (
+		filters.dropTestPayloads === true &&
+		this.getMode() !== 'manual' &&
+		isTestPayload(request.body)
+	) {
+		return [];
 	}
-	return persons;
+	const options = this.getNodeParameter('options', {}) as IDataObject;
+	let body = request.body as unknown;
+	let feature = getDeliveredFeature(body, features);
+	if (isTestPayload(body)) {
+		// Test deliveries carry little data; fill them up with a sample of the event.
+		feature = feature ?? features[0];
+		body = { ...getSamplePayload(feature), ...(body as IDataObject) };
+	}
+	const webhookFilters = getWebhookFilters(this);
+	return normalizeWebhookPayload(feature, body, options.includeRawBody === true).filter((item) =>
+		matchesWebhookFilters(item, webhookFilters),
+	);
 }
 
-function normalizeRequestBody(body: unknown): IDataObject {
-	if (!isPlainObject(body)) {
-		return (body ?? {}) as IDataObject;
-	}
-	const payload = { ...body } as IDataObject;
-	if (isPlainObject(payload.person)) {
-		const flattened = flattenPerson(payload.person);
-		if (flattened) {
-			payload.person = flattened;
+function getEntryFeatures(entry: WebhookRecord): string[] {
+	return Array.isArray(entry.features)
+		? entry.features.filter((value): value is string => typeof value === 'string')
+		: [];
+}
+
+function getEntryProjectIds(entry: WebhookRecord): number[] {
+	return Array.isArray(entry.project_ids)
+		? entry.project_ids
+				.map((value) => toNumericId(value))
+				.filter((value): value is number => value !== undefined)
+		: [];
+}
+
+function getWebhookName(context: IHookFunctions): string {
+	return (context.getNodeParameter('webhookName') as string)?.trim() || WEBHOOK_NAME_FALLBACK;
+}
+
+async function deleteWebhook(this: IHookFunctions, webhookId: number) {
+	try {
+		await leadspickerApiRequest.call(this, 'DELETE', `/webhooks/${webhookId}`);
+	} catch (error) {
+		if (getStatusCode(error) !== 404) {
+			throw error;
 		}
 	}
-	return payload;
 }
 
-function formatRequestPayload(this: IWebhookFunctions): IDataObject {
-	const request = this.getRequestObject();
-	return normalizeRequestBody(request.body ?? {});
+async function registerWebhook(this: IHookFunctions) {
+	const projectIds = getSelectedProjectIds(this);
+	const secret = generateWebhookSecret();
+	const payload: IDataObject = {
+		name: getWebhookName(this),
+		url: this.getNodeWebhookUrl('default'),
+		features: getSelectedFeatures(this),
+		secret,
+	};
+	const mode = this.getMode();
+	const activationMode = this.getActivationMode?.();
+	const isManualTest = mode === 'manual' || activationMode === 'manual';
+	if (isManualTest) {
+		// Request Leadspicker to immediately fire a test payload for manual trigger tests
+		payload.fire_test_payload = true;
+	}
+	if (projectIds.length) {
+		payload.project_ids = projectIds;
+	}
+	const response = await leadspickerApiRequest.call(this, 'POST', '/webhooks', payload);
+	const webhookId = extractWebhookId(response);
+	if (webhookId === undefined) {
+		throw new NodeOperationError(this.getNode(), 'Leadspicker did not return a webhook ID.');
+	}
+	const staticData = this.getWorkflowStaticData('node') as ITriggerStaticData;
+	staticData.webhookId = webhookId;
+	staticData.webhookSecret = secret;
+	delete staticData.seenSignatures;
+	delete staticData.seenDeliveries;
 }
 
-function buildWebhookOutput(this: IWebhookFunctions, feature: FeatureName): IDataObject[] {
-	switch (feature) {
-		case 'person_added': {
-			const request = this.getRequestObject();
-			return extractPersonsFromBody(request.body);
+/**
+ * Brings the webhooks registered for this node's URL in line with its settings.
+ * One webhook is kept and updated in place when its events, campaigns, name or
+ * signing secret are out of date; any other webhook pointing at the URL is an
+ * orphan of an earlier activation and is deleted. Returns false when no webhook
+ * is left, so that one gets created.
+ */
+async function reconcileWebhook(this: IHookFunctions): Promise<boolean> {
+	const webhookUrl = this.getNodeWebhookUrl('default');
+	const features = getSelectedFeatures(this);
+	const projectIds = getSelectedProjectIds(this);
+	const webhookName = getWebhookName(this);
+	const staticData = this.getWorkflowStaticData('node') as ITriggerStaticData;
+
+	const ownWebhooks: WebhookRecord[] = await getWebhooksForUrl.call(this, webhookUrl);
+	const isUpToDate = (entry: WebhookRecord) =>
+		isSameSet<string>(getEntryFeatures(entry), features) &&
+		isSameSet(getEntryProjectIds(entry), projectIds);
+	const keep =
+		ownWebhooks.find((entry) => extractWebhookId(entry) === staticData.webhookId) ??
+		ownWebhooks.find(isUpToDate) ??
+		ownWebhooks[0];
+	const keepId = keep ? extractWebhookId(keep) : undefined;
+
+	for (const entry of ownWebhooks) {
+		const id = extractWebhookId(entry);
+		if (id !== undefined && id !== keepId) {
+			await deleteWebhook.call(this, id);
+		}
+	}
+	if (!keep || keepId === undefined) {
+		delete staticData.webhookId;
+		return false;
+	}
+
+	const secretKnown = Boolean(staticData.webhookSecret) && staticData.webhookId === keepId;
+	if (!isUpToDate(keep) || keep.name !== webhookName || !secretKnown) {
+		const update: IDataObject = {
+			name: webhookName,
+			features,
+			project_ids: projectIds,
+		};
+		if (!secretKnown) {
+			// The signing secret of this webhook is unknown, so it gets a new one.
+			update.secret = generateWebhookSecret();
+		}
+		await leadspickerApiRequest.call(this, 'PATCH', `/webhooks/${keepId}`, update);
+		if (update.secret) {
+			staticData.webhookSecret = update.secret as string;
+			delete staticData.seenSignatures;
 		}
-		case 'email_sent':
-		default:
-			return [formatRequestPayload.call(this)];
 	}
+	staticData.webhookId = keepId;
+	return true;
 }
 
 export class LeadspickerTrigger implements INodeType {
@@ -188,7 +325,8 @@ export class LeadspickerTrigger implements INodeType {
 		name: 'leadspickerTrigger',
 		icon: 'file:logo_leadspicker.svg',
 		group: ['trigger'],
-		version: 1,
+		version: [1, 2],
+		defaultVersion: 2,
 		description: 'Receive Leadspicker webhook events for multiple features',
 		defaults: {
 			name: 'Leadspicker Trigger',
@@ -217,13 +355,29 @@ export class LeadspickerTrigger implements INodeType {
 				required: true,
 				default: '',
 				noDataExpression: true,
-				options: FEATURE_OPTIONS.map((option) => ({
-					name: option.name,
-					value: option.value,
-					description: option.description,
-				})),
+				displayOptions: {
+					show: {
+						'@version': [1],
+					},
+				},
+				options: WEBHOOK_FEATURE_OPTIONS,
 				description: 'Leadspicker event type to subscribe to',
 			},
+			{
+				displayName: 'Events',
+				name: 'features',
+				type: 'multiOptions',
+				required: true,
+				default: [],
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 2 } }],
+					},
+				},
+				options: WEBHOOK_FEATURE_OPTIONS,
+				description:
+					'Leadspicker event types to subscribe to. The event name is added to every output item.',
+			},
 			{
 				displayName: 'Webhook Name',
 				name: 'webhookName',
@@ -236,6 +390,11 @@ export class LeadspickerTrigger implements INodeType {
 				name: 'projectId',
 				type: 'options',
 				default: '',
+				displayOptions: {
+					show: {
+						'@version': [1],
+					},
+				},
 				options: [
 					{ name: 'All Projects (Default)', value: '' },
 					{ name: 'Enter Project ID manually...', value: MANUAL_ID_OPTION },
@@ -253,12 +412,133 @@ export class LeadspickerTrigger implements INodeType {
 				required: true,
 				displayOptions: {
 					show: {
+						'@version': [1],
 						projectId: [MANUAL_ID_OPTION],
 					},
 				},
 				default: 0,
 				description: 'Project ID to filter events by',
 			},
+			{
+				displayName: 'Project Names or IDs',
+				name: 'projectIds',
+				type: 'multiOptions',
+				default: [],
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 2 } }],
+					},
+				},
+				typeOptions: {
+					loadOptionsMethod: 'getCampaigns',
+				},
+				description:
+					'Projects to listen to. Leave empty to listen to all projects. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+			},
+			{
+				displayName: 'Filters',
+				name: 'filters',
+				type: 'collection',
+				placeholder: 'Add Filter',
+				default: {},
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 2 } }],
+					},
+				},
+				description:
+					'Events that do not match are acknowledged without starting an execution. A filter only applies to events that carry its field.',
+				options: [
+					{
+						displayName: 'Drop Test Payloads',
+						name: 'dropTestPayloads',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to ignore test deliveries. Test payloads requested by manual test runs are still let through.',
+					},
+					{
+						displayName: 'Lead Custom Fields',
+						name: 'customFields',
+						type: 'fixedCollection',
+						placeholder: 'Add Custom Field',
+						typeOptions: {
+							multipleValues: true,
+						},
+						default: {},
+						description: 'Only emit events whose lead has all of these custom field values',
+						options: [
+							{
+								name: 'field',
+								displayName: 'Field',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										description: 'Custom field key',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										default: '',
+										description: 'Value the custom field must have (case-insensitive)',
+									},
+								],
+							},
+						],
+					},
+					{
+						displayName: 'Outreach Accounts',
+						name: 'accounts',
+						type: 'string',
+						default: '',
+						placeholder: 'sales@acme.com, jane-doe',
+						description:
+							'Comma-separated email addresses or LinkedIn identifiers of the outreach accounts to emit events for',
+					},
+					{
+						displayName: 'Reply Sentiments',
+						name: 'sentiments',
+						type: 'multiOptions',
+						options: REPLY_SENTIMENT_OPTIONS,
+						default: [],
+						description: 'Only emit replies with one of these sentiments',
+					},
+					{
+						displayName: 'Sequence Step Types',
+						name: 'stepTypes',
+						type: 'multiOptions',
+						options: OUTREACH_STEP_TYPE_OPTIONS,
+						default: [],
+						description: 'Only emit events of these sequence steps',
+					},
+				],
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						'@version': [{ _cnd: { gte: 2 } }],
+					},
+				},
+				options: [
+					{
+						displayName: 'Include Raw Body',
+						name: 'includeRawBody',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to add the unmodified webhook body to each item under the "raw" key',
+					},
+				],
+			},
 		],
 	};
 
@@ -290,95 +570,65 @@ export class LeadspickerTrigger implements INodeType {
 	webhookMethods = {
 		default: {
 			async checkExists(this: IHookFunctions): Promise<boolean> {
-				const webhookUrl = this.getNodeWebhookUrl('default');
-				const feature = getSelectedFeature(this);
-				const projectId = getProjectIdIfSelected(this);
-				const response = await leadspickerApiRequest.call(this, 'GET', '/webhooks');
-				const availableWebhooks = normalizeWebhookList(response);
-				const match = availableWebhooks.find((entry) => {
-					if (typeof entry.url !== 'string' || entry.url !== webhookUrl) {
-						return false;
-					}
-					if (!Array.isArray(entry.features) || !entry.features.includes(feature)) {
-						return false;
-					}
-					const projectIds = Array.isArray(entry.project_ids) ? entry.project_ids : null;
-					if (projectId === undefined) {
-						return !projectIds || projectIds.length === 0;
-					}
-					if (!projectIds) {
-						return false;
-					}
-					return projectIds.some((value) => toNumericId(value) === projectId);
-				});
-				if (!match) {
-					return false;
-				}
-				const id = extractWebhookId(match);
-				if (id !== undefined) {
-					const staticData = this.getWorkflowStaticData('node');
-					staticData.webhookId = id;
-				}
-				return true;
+				return reconcileWebhook.call(this);
 			},
 			async create(this: IHookFunctions): Promise<boolean> {
-				const feature = getSelectedFeature(this);
-				const webhookUrl = this.getNodeWebhookUrl('default');
-				const projectId = getProjectIdIfSelected(this);
-				const webhookName =
-					(this.getNodeParameter('webhookName') as string)?.trim() || WEBHOOK_NAME_FALLBACK;
-				const payload: IDataObject = {
-					name: webhookName,
-					url: webhookUrl,
-					features: [feature],
-				};
-				const mode = this.getMode();
-				const activationMode = this.getActivationMode?.();
-				const isManualTest = mode === 'manual' || activationMode === 'manual';
-				if (isManualTest) {
-					// Request Leadspicker to immediately fire a test payload for manual trigger tests
-					payload.fire_test_payload = true;
-				}
-				if (projectId !== undefined) {
-					payload.project_ids = [projectId];
-				}
-				const response = await leadspickerApiRequest.call(this, 'POST', '/webhooks', payload);
-				const webhookId = extractWebhookId(response);
-				if (webhookId === undefined) {
-					throw new NodeOperationError(this.getNode(), 'Leadspicker did not return a webhook ID.');
-				}
-				const staticData = this.getWorkflowStaticData('node');
-				staticData.webhookId = webhookId;
+				await registerWebhook.call(this);
 				return true;
 			},
 			async delete(this: IHookFunctions): Promise<boolean> {
-				const staticData = this.getWorkflowStaticData('node') as IDataObject & {
-					webhookId?: number;
-				};
+				const staticData = this.getWorkflowStaticData('node') as ITriggerStaticData;
 				const webhookId = staticData.webhookId;
 				if (webhookId === undefined) {
 					return true;
 				}
-				try {
-					await leadspickerApiRequest.call(this, 'DELETE', `/webhooks/${webhookId}`);
-				} catch (error) {
-					const httpCode =
-						typeof error === 'object' && error !== null && 'httpCode' in error
-							? (error as { httpCode?: unknown }).httpCode
-							: undefined;
-					if (httpCode !== '404') {
-						throw error;
-					}
-				}
+				await deleteWebhook.call(this, webhookId);
 				delete staticData.webhookId;
+				delete staticData.webhookSecret;
+				delete staticData.seenSignatures;
+				delete staticData.seenDeliveries;
 				return true;
 			},
 		},
 	};
 
 	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
-		const feature = getSelectedFeature(this);
-		const payloads = buildWebhookOutput.call(this, feature);
+		const staticData = this.getWorkflowStaticData('node') as ITriggerStaticData;
+		const request = this.getRequestObject();
+		const rawBody = request.rawBody
+			? request.rawBody.toString('utf8')
+			: JSON.stringify(request.body ?? {});
+		const check = staticData.webhookSecret
+			? verifyWebhookSignature(
+					staticData.webhookSecret,
+					this.getHeaderData(),
+					rawBody,
+					staticData.seenSignatures,
+				)
+			: ({ valid: false, reason: 'Webhook is not registered' } as const);
+		if (!check.valid) {
+			const response = this.getResponseObject();
+			response.status(401).json({ message: check.reason });
+			return { noWebhookResponse: true };
+		}
+		staticData.seenSignatures = rememberSignature(staticData.seenSignatures ?? {}, check.signature);
+
+		// Redeliveries after a timeout are signed again, so they are recognized by their content.
+		const { duplicate, seenDeliveries } = rememberDelivery(
+			staticData.seenDeliveries ?? {},
+			getDeliveryKey(request.body, rawBody),
+		);
+		staticData.seenDeliveries = seenDeliveries;
+		if (duplicate) {
+			return {};
+		}
+
+		const features = getSelectedFeatures(this);
+		const payloads = buildWebhookOutput.call(this, features);
+		if (!payloads.length) {
+			// Nothing matched the filters: acknowledge the delivery without starting an execution.
+			return {};
+		}
 		const executionData: INodeExecutionData[] = this.helpers.returnJsonArray(payloads);
 		return {
 			workflowData: [executionData],
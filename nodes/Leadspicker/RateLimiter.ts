@@ -0,0 +1,122 @@
+import { createHash } from 'crypto';
+
+export type ResponseHeaders = Record<string, string | string[] | undefined>;
+
+const MINUTE_MS = 60_000;
+// Daily quota readings older than this are refreshed by letting the next request through.
+const DAY_STATE_TTL_MS = 5 * MINUTE_MS;
+
+/**
+ * Token bucket for one credential. Capacity and remaining daily calls are learned
+ * from the `x-ratelimit-*` headers; until the first response arrives nothing is paced.
+ */
+export interface IRateLimitState {
+	capacity?: number;
+	tokens: number;
+	lastRefill: number;
+	remainingDay?: number;
+	dayUpdatedAt?: number;
+}
+
+// Module-level so every item and every concurrent execution using a credential share one budget.
+const rateLimitStates = new Map<string, IRateLimitState>();
+
+export function toNumber(headerValue: string | string[] | undefined): number | undefined {
+	if (Array.isArray(headerValue)) {
+		return toNumber(headerValue[0]);
+	}
+	if (headerValue === undefined || headerValue === null || `${headerValue}`.trim() === '') {
+		return undefined;
+	}
+	const parsed = Number(headerValue);
+	return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+export function getRateLimitKey(baseUrl: string, token: unknown): string {
+	return createHash('sha256')
+		.update(`${baseUrl}\n${typeof token === 'string' ? token : ''}`)
+		.digest('hex');
+}
+
+export function getRateLimitState(key: string, now = Date.now()): IRateLimitState {
+	let state = rateLimitStates.get(key);
+	if (!state) {
+		state = { tokens: Number.POSITIVE_INFINITY, lastRefill: now };
+		rateLimitStates.set(key, state);
+	}
+	return state;
+}
+
+export function resetRateLimitStates() {
+	rateLimitStates.clear();
+}
+
+function refill(state: IRateLimitState, now: number) {
+	if (state.capacity === undefined) {
+		state.lastRefill = now;
+		return;
+	}
+	const elapsed = Math.max(now - state.lastRefill, 0);
+	state.tokens = Math.min(state.capacity, state.tokens + (elapsed * state.capacity) / MINUTE_MS);
+	state.lastRefill = now;
+}
+
+/**
+ * Takes one token and returns how long the caller has to wait before sending.
+ * Tokens may go negative so that concurrent callers queue up behind each other.
+ */
+export function reserveRequestSlot(state: IRateLimitState, now = Date.now()): number {
+	refill(state, now);
+	state.tokens -= 1;
+	if (state.tokens >= 0 || state.capacity === undefined || state.capacity <= 0) {
+		return 0;
+	}
+	return Math.ceil((-state.tokens * MINUTE_MS) / state.capacity);
+}
+
+export function recordRateLimitHeaders(
+	state: IRateLimitState,
+	headers: ResponseHeaders,
+	now = Date.now(),
+) {
+	const remainingMinute = toNumber(headers['x-ratelimit-remaining-minute']);
+	const limitMinute = toNumber(headers['x-ratelimit-limit-minute']);
+	const remainingDay = toNumber(headers['x-ratelimit-remaining-day']);
+
+	if (remainingMinute !== undefined) {
+		refill(state, now);
+		state.capacity =
+			limitMinute !== undefined && limitMinute > 0
+				? limitMinute
+				: Math.max(state.capacity ?? 0, remainingMinute + 1);
+		// The server is authoritative; negative tokens (queued callers) are kept as they are.
+		state.tokens = Number.isFinite(state.tokens)
+			? Math.min(state.tokens, remainingMinute)
+			: remainingMinute;
+		state.lastRefill = now;
+	}
+	if (remainingDay !== undefined) {
+		state.remainingDay = remainingDay;
+		state.dayUpdatedAt = now;
+	}
+}
+
+export function isDailyQuotaExhausted(
+	state: IRateLimitState,
+	reserve: number,
+	now = Date.now(),
+): boolean {
+	if (state.remainingDay === undefined || state.dayUpdatedAt === undefined) {
+		return false;
+	}
+	if (now - state.dayUpdatedAt > DAY_STATE_TTL_MS) {
+		return false;
+	}
+	return state.remainingDay <= Math.max(reserve, 0);
+}
+
+export function consumeDailyQuota(state: IRateLimitState) {
+	if (state.remainingDay !== undefined) {
+		state.remainingDay = Math.max(state.remainingDay - 1, 0);
+	}
+}
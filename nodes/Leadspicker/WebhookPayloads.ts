@@ -0,0 +1,345 @@
+import { createHash } from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+
+import { getCatalogEvent } from './EventCatalog';
+import type { LeadspickerEventKind } from './EventCatalog';
+import { isPlainObject } from './GenericFunctions';
+
+export interface IWebhookMessage extends IDataObject {
+	id: number | string | null;
+	threadId: number | string | null;
+	subject: string | null;
+	text: string | null;
+	sentAt: string | null;
+}
+
+/**
+ * Stable shape of every item emitted by the Leadspicker Trigger. Fields that do
+ * not apply to an event are left out; fields that apply but are missing from
+ * the delivery are null.
+ */
+export interface IWebhookEventOutput extends IDataObject {
+	event: string | null;
+	campaignId: number | null;
+	campaignName: string | null;
+	lead: IDataObject | null;
+	message?: IWebhookMessage;
+	account?: string | null;
+	stepType?: string | null;
+	sentiment?: string | null;
+	bounceReason?: string | null;
+	reason?: string | null;
+	raw?: IDataObject;
+}
+
+export interface IWebhookFilters {
+	accounts?: string[];
+	customFields?: Array<{ name: string; value: string }>;
+	sentiments?: string[];
+	stepTypes?: string[];
+}
+
+// Leadspicker gives up redelivering long before this, and the set never grows past the cap.
+export const DELIVERY_TTL_MS = 24 * 60 * 60_000;
+export const MAX_REMEMBERED_DELIVERIES = 1000;
+
+type PayloadNormalizer = (body: IDataObject) => IDataObject[];
+
+export function flattenPerson(person: unknown): IDataObject | undefined {
+	if (!isPlainObject(person)) {
+		return undefined;
+	}
+	const flattened: IDataObject = {};
+	const details = isPlainObject(person.person_data)
+		? (person.person_data as IDataObject)
+		: undefined;
+	if (details) {
+		for (const [key, value] of Object.entries(details)) {
+			flattened[key] = value as IDataObject;
+		}
+	}
+	for (const [key, value] of Object.entries(person)) {
+		if (key === 'person_data') continue;
+		flattened[key] = value as IDataObject;
+	}
+	return flattened;
+}
+
+function pick(source: unknown, keys: string[]): unknown {
+	if (!isPlainObject(source)) {
+		return undefined;
+	}
+	for (const key of keys) {
+		const value = source[key];
+		if (value !== undefined && value !== null && value !== '') {
+			return value;
+		}
+	}
+	return undefined;
+}
+
+function pickString(source: unknown, keys: string[]): string | null {
+	const value = pick(source, keys);
+	if (typeof value === 'string') return value;
+	if (typeof value === 'number') return value.toString();
+	return null;
+}
+
+function pickId(source: unknown, keys: string[]): number | string | null {
+	const value = pick(source, keys);
+	return typeof value === 'number' || typeof value === 'string' ? value : null;
+}
+
+function getCampaign(body: IDataObject): Pick<IWebhookEventOutput, 'campaignId' | 'campaignName'> {
+	const campaign = pick(body, ['project', 'campaign']);
+	const id = pickId(campaign, ['id']) ?? pickId(body, ['project_id', 'campaign_id']);
+	const numericId = typeof id === 'string' ? Number(id) : id;
+	return {
+		campaignId: typeof numericId === 'number' && Number.isFinite(numericId) ? numericId : null,
+		campaignName:
+			pickString(campaign, ['name']) ?? pickString(body, ['project_name', 'campaign_name']),
+	};
+}
+
+function getLead(body: IDataObject): IDataObject | null {
+	return flattenPerson(pick(body, ['person', 'lead'])) ?? null;
+}
+
+function getMessage(body: IDataObject): IWebhookMessage {
+	const nested = pick(body, ['message', 'reply']);
+	const source = isPlainObject(nested) ? nested : body;
+	return {
+		id: pickId(source, ['message_id', 'id']),
+		threadId: pickId(source, ['thread_id', 'conversation_id']) ?? pickId(body, ['thread_id']),
+		subject: pickString(source, ['subject']),
+		text:
+			pickString(source, ['text', 'body', 'content']) ??
+			(typeof nested === 'string' ? nested : null),
+		sentAt: pickString(source, ['sent_at', 'received_at', 'created', 'created_at', 'timestamp']),
+	};
+}
+
+function getAccount(body: IDataObject): string | null {
+	const account = pick(body, ['account', 'outreach_account', 'email_account', 'linkedin_account']);
+	if (isPlainObject(account)) {
+		return pickString(account, ['email', 'identifier', 'name', 'id']);
+	}
+	if (typeof account === 'string' || typeof account === 'number') {
+		return account.toString();
+	}
+	return pickString(body, ['account_email', 'account_id', 'sender', 'from_email']);
+}
+
+function getStepType(body: IDataObject): string | null {
+	const step = pick(body, ['step', 'sequence_step']);
+	// Email steps have an empty step type, which is meaningful for filtering.
+	const value = isPlainObject(step)
+		? (step.type ?? step.step_type)
+		: (body.step_type ?? body.outreach_step_type);
+	return typeof value === 'string' ? value : null;
+}
+
+function baseOutput(body: IDataObject): IWebhookEventOutput {
+	return { event: null, ...getCampaign(body), lead: getLead(body) };
+}
+
+const messageNormalizer: PayloadNormalizer = (body) => [
+	{
+		...baseOutput(body),
+		message: getMessage(body),
+		account: getAccount(body),
+		stepType: getStepType(body),
+	},
+];
+
+const replyNormalizer: PayloadNormalizer = (body) =>
+	messageNormalizer(body).map((item) => ({
+		...item,
+		sentiment:
+			pickString(body, ['sentiment']) ??
+			pickString(pick(body, ['message', 'reply']), ['sentiment']),
+	}));
+
+const NORMALIZERS: Record<LeadspickerEventKind, PayloadNormalizer> = {
+	account: (body) => [
+		{
+			...baseOutput(body),
+			account: getAccount(body),
+		},
+	],
+	bounce: (body) => [
+		{
+			...baseOutput(body),
+			message: getMessage(body),
+			account: getAccount(body),
+			stepType: getStepType(body),
+			bounceReason: pickString(body, ['bounce_reason', 'reason', 'error']),
+		},
+	],
+	campaign: (body) => [baseOutput(body)],
+	// One delivery may announce several leads; each becomes its own item.
+	lead: (body) => {
+		const persons = pick(body, ['persons', 'person', 'lead']) ?? body;
+		const entries = Array.isArray(persons) ? persons : [persons];
+		const { campaignId, campaignName } = getCampaign(body);
+		return entries
+			.map((entry) => flattenPerson(entry))
+			.filter((lead): lead is IDataObject => lead !== undefined)
+			.map((lead) => {
+				const leadCampaign = getCampaign(lead);
+				return {
+					event: null,
+					campaignId: leadCampaign.campaignId ?? campaignId,
+					campaignName: leadCampaign.campaignName ?? campaignName,
+					lead,
+				};
+			});
+	},
+	message: messageNormalizer,
+	reply: replyNormalizer,
+	sequence: (body) => [
+		{
+			...baseOutput(body),
+			stepType: getStepType(body),
+			reason: pickString(body, ['reason', 'error', 'status']),
+		},
+	],
+};
+
+/**
+ * Turns a raw webhook body into the documented output items for the given
+ * event, shaped by the event's kind in the catalog. Unknown events only get the
+ * common fields.
+ */
+export function normalizeWebhookPayload(
+	feature: string | undefined,
+	body: unknown,
+	includeRawBody = false,
+): IWebhookEventOutput[] {
+	const payload = isPlainObject(body) ? (body as IDataObject) : {};
+	const kind = getCatalogEvent(feature)?.kind;
+	const normalize = kind ? NORMALIZERS[kind] : NORMALIZERS.campaign;
+	return normalize(payload).map((item) => ({
+		...(item as IWebhookEventOutput),
+		event: feature ?? null,
+		...(includeRawBody ? { raw: payload } : {}),
+	}));
+}
+
+/**
+ * Output of version 1 of the trigger: the leads of a Lead Added delivery with
+ * `person_data` flattened, and the body itself (with its `person` flattened)
+ * for every other event.
+ */
+export function formatVersion1Payload(feature: string, body: unknown): IDataObject[] {
+	if (feature === 'person_added') {
+		if (!isPlainObject(body)) {
+			return [];
+		}
+		const personPayload = body.person ?? body.persons;
+		const persons = Array.isArray(personPayload) ? personPayload : [personPayload ?? body];
+		return persons
+			.map((entry) => flattenPerson(entry))
+			.filter((entry): entry is IDataObject => entry !== undefined);
+	}
+	if (!isPlainObject(body)) {
+		return [(body ?? {}) as IDataObject];
+	}
+	const payload = { ...body } as IDataObject;
+	if (isPlainObject(payload.person)) {
+		payload.person = flattenPerson(payload.person) as IDataObject;
+	}
+	return [payload];
+}
+
+export function isTestPayload(body: unknown): boolean {
+	return (
+		isPlainObject(body) &&
+		(body.test === true || body.is_test === true || body.test_payload === true)
+	);
+}
+
+function normalizeText(value: unknown): string {
+	return typeof value === 'string' || typeof value === 'number'
+		? value.toString().trim().toLowerCase()
+		: '';
+}
+
+/**
+ * Whether a normalized item passes the trigger filters. A filter only applies to
+ * events that carry its field, e.g. the sentiment filter never drops a Lead Added item.
+ */
+export function matchesWebhookFilters(
+	item: IWebhookEventOutput,
+	filters: IWebhookFilters,
+): boolean {
+	const { accounts = [], customFields = [], sentiments = [], stepTypes = [] } = filters;
+	if (sentiments.length && 'sentiment' in item) {
+		if (
+			!sentiments.some((sentiment) => normalizeText(sentiment) === normalizeText(item.sentiment))
+		) {
+			return false;
+		}
+	}
+	if (accounts.length && 'account' in item) {
+		if (!accounts.some((account) => normalizeText(account) === normalizeText(item.account))) {
+			return false;
+		}
+	}
+	if (stepTypes.length && 'stepType' in item) {
+		if (
+			item.stepType === null ||
+			item.stepType === undefined ||
+			!stepTypes.includes(item.stepType)
+		) {
+			return false;
+		}
+	}
+	if (customFields.length && item.lead) {
+		const lead = item.lead;
+		const leadCustomFields = isPlainObject(lead.custom_fields) ? lead.custom_fields : {};
+		for (const field of customFields) {
+			const value = leadCustomFields[field.name] ?? lead[field.name];
+			if (normalizeText(value) !== normalizeText(field.value)) {
+				return false;
+			}
+		}
+	}
+	return true;
+}
+
+/**
+ * Identifies a delivery across redeliveries: the event ID when Leadspicker sends
+ * one, otherwise a hash of the raw body.
+ */
+export function getDeliveryKey(body: unknown, rawBody: string): string {
+	const eventId = pickId(body, ['event_id', 'delivery_id', 'webhook_event_id']);
+	if (eventId !== null) {
+		return `id:${eventId}`;
+	}
+	return `sha256:${createHash('sha256').update(rawBody).digest('hex')}`;
+}
+
+/**
+ * Records a delivery in the TTL set kept in static data. Expired entries are
+ * dropped and only the most recent deliveries are kept.
+ */
+export function rememberDelivery(
+	seenDeliveries: Record<string, number>,
+	key: string,
+	now = Date.now(),
+): { duplicate: boolean; seenDeliveries: Record<string, number> } {
+	const entries = Object.entries(seenDeliveries).filter(
+		([, receivedAt]) => now - receivedAt <= DELIVERY_TTL_MS,
+	);
+	const duplicate = entries.some(([seenKey]) => seenKey === key);
+	if (!duplicate) {
+		entries.push([key, now]);
+	}
+	return {
+		duplicate,
+		seenDeliveries: Object.fromEntries(
+			entries.sort((a, b) => a[1] - b[1]).slice(-MAX_REMEMBERED_DELIVERIES),
+		),
+	};
+}
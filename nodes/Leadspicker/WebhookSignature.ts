@@ -0,0 +1,89 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-leadspicker-signature';
+export const TIMESTAMP_HEADER = 'x-leadspicker-timestamp';
+// Deliveries whose timestamp is further than this from the current time are rejected.
+export const SIGNATURE_TOLERANCE_MS = 5 * 60_000;
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export type SignatureCheck = { valid: true; signature: string } | { valid: false; reason: string };
+
+export function generateWebhookSecret(): string {
+	return randomBytes(32).toString('hex');
+}
+
+/** HMAC-SHA256 over `<timestamp>.<raw body>`, hex encoded. */
+export function computeWebhookSignature(
+	secret: string,
+	timestamp: string,
+	rawBody: string,
+): string {
+	return createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+	const value = headers[name];
+	const first = Array.isArray(value) ? value[0] : value;
+	return typeof first === 'string' && first.trim() !== '' ? first.trim() : undefined;
+}
+
+function parseTimestamp(value: string): number | undefined {
+	const parsed = Number(value);
+	if (!Number.isFinite(parsed) || parsed <= 0) {
+		return undefined;
+	}
+	// Accept both seconds and milliseconds since the epoch.
+	return parsed < 1e12 ? parsed * 1000 : parsed;
+}
+
+/**
+ * Checks the signature and timestamp headers of a delivery. `seenSignatures`
+ * maps recently accepted signatures to the time they were received.
+ */
+export function verifyWebhookSignature(
+	secret: string,
+	headers: WebhookHeaders,
+	rawBody: string,
+	seenSignatures: Record<string, number> = {},
+	now = Date.now(),
+): SignatureCheck {
+	const signatureHeader = getHeader(headers, SIGNATURE_HEADER);
+	const timestampHeader = getHeader(headers, TIMESTAMP_HEADER);
+	if (!signatureHeader || !timestampHeader) {
+		return { valid: false, reason: 'Missing signature headers' };
+	}
+	const timestamp = parseTimestamp(timestampHeader);
+	if (timestamp === undefined || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_MS) {
+		return { valid: false, reason: 'Signature timestamp is outside the allowed window' };
+	}
+	const signature = signatureHeader.replace(/^sha256=/i, '').toLowerCase();
+	const expected = computeWebhookSignature(secret, timestampHeader, rawBody);
+	const received = Buffer.from(signature, 'utf8');
+	if (
+		received.length !== expected.length ||
+		!timingSafeEqual(received, Buffer.from(expected, 'utf8'))
+	) {
+		return { valid: false, reason: 'Signature does not match' };
+	}
+	if (seenSignatures[signature] !== undefined) {
+		return { valid: false, reason: 'Delivery was already received' };
+	}
+	return { valid: true, signature };
+}
+
+/** Records an accepted signature and forgets the ones that can no longer be replayed. */
+export function rememberSignature(
+	seenSignatures: Record<string, number>,
+	signature: string,
+	now = Date.now(),
+): Record<string, number> {
+	const remembered: Record<string, number> = {};
+	for (const [key, receivedAt] of Object.entries(seenSignatures)) {
+		if (now - receivedAt <= SIGNATURE_TOLERANCE_MS * 2) {
+			remembered[key] = receivedAt;
+		}
+	}
+	remembered[signature] = now;
+	return remembered;
+}
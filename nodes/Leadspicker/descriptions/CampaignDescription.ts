@@ -1,5 +1,6 @@
 import type { INodePropertyOptions, INodeProperties } from 'n8n-workflow';
 
+import { TIMELINE_EVENT_TYPE_OPTIONS } from '../EventCatalog';
 import { getUserTimezone } from '../GenericFunctions';
 import { MANUAL_ID_OPTION } from './Shared';
 
@@ -15,37 +16,9 @@ const getTimezones = (): string[] => {
 	return [getUserTimezone()];
 };
 
-const TIMELINE_EVENT_TYPE_OPTIONS: INodePropertyOptions[] = [
-	{ name: 'Project Paused', value: 'project_paused' },
-	{ name: 'Project Started', value: 'project_started' },
-	{ name: 'Sequence Step Completed', value: 'sequence_step_completed' },
-	{ name: 'Sequence Step Skipped', value: 'sequence_step_skipped' },
-	{ name: 'Sequence Step Error', value: 'sequence_step_error' },
-	{ name: 'Sequence Journey Ended', value: 'sequence_journey_ended' },
-	{ name: 'Message Sent', value: 'message_sent' },
-	{ name: 'Reply Received', value: 'reply_received' },
-	{ name: 'LinkedIn Connection Accepted', value: 'linkedin_connection_accepted' },
-	{ name: 'LinkedIn Connection Withdrawn', value: 'linkedin_connection_withdrawn' },
-	{ name: 'LinkedIn Already Connected', value: 'linkedin_already_connected' },
-	{ name: 'LinkedIn Cannot Resend Yet', value: 'linkedin_cannot_resend_yet' },
-	{ name: 'Bounced', value: 'bounced' },
-	{ name: 'Delay Started', value: 'delay_started' },
-	{ name: 'Unknown Event', value: 'unknown' },
-	{ name: 'Custom Action Sending Failed', value: 'custom_action_error' },
-	{ name: 'Custom Action Skipped', value: 'custom_action_skipped' },
-	{ name: 'Email Reply', value: 'email_reply' },
-	{ name: 'Email Sent', value: 'email_sent' },
-	{ name: 'LinkedIn Connection Sent', value: 'linkedin_connection_sent' },
-	{ name: 'LinkedIn Message Sent', value: 'linkedin_message_sent' },
-	{ name: 'LinkedIn Message Reply', value: 'linkedin_message_reply' },
-	{ name: 'LinkedIn InMail Sent', value: 'linkedin_inmail_sent' },
-	{ name: 'LinkedIn InMail Reply', value: 'linkedin_inmail_reply' },
-	{ name: 'Email Bounced', value: 'email_bounced' },
-	{ name: 'Custom Action Sent', value: 'custom_action_sent' },
-	{ name: 'LinkedIn Status Update', value: 'linkedin_status' },
-];
+export { TIMELINE_EVENT_TYPE_OPTIONS };
 
-const OUTREACH_STEP_TYPE_OPTIONS: INodePropertyOptions[] = [
+export const OUTREACH_STEP_TYPE_OPTIONS: INodePropertyOptions[] = [
 	{ name: 'Email Message', value: '' },
 	{ name: 'Connection Request', value: 'connect' },
 	{ name: 'LinkedIn Message', value: 'message' },
@@ -284,6 +257,36 @@ export const campaignFields: INodeProperties[] = [
 		default: 0,
 		description: 'ID of the campaign to fetch timeline events from',
 	},
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['project'],
+				operation: ['getCampaignLog'],
+			},
+		},
+		default: true,
+		description: 'Whether to return all results or only up to a given limit',
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		displayOptions: {
+			show: {
+				resource: ['project'],
+				operation: ['getCampaignLog'],
+				returnAll: [false],
+			},
+		},
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of results to return',
+	},
 	{
 		displayName: 'Person Name or ID',
 		name: 'projectLogPersonId',
@@ -387,4 +390,52 @@ export const campaignFields: INodeProperties[] = [
 		default: [],
 		description: 'Limit results to specific outreach steps',
 	},
+	{
+		displayName: 'Options',
+		name: 'projectLogOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['project'],
+				operation: ['getCampaignLog'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Since Event ID',
+				name: 'sinceEventId',
+				type: 'number',
+				default: 0,
+				description:
+					'Only return events with an ID greater than this one. Use the highest event ID from the previous run to fetch only new events.',
+			},
+			{
+				displayName: 'Since Timestamp',
+				name: 'sinceTimestamp',
+				type: 'dateTime',
+				default: '',
+				description: 'Only return events that happened after this moment',
+			},
+			{
+				displayName: 'Sort Order',
+				name: 'sort',
+				type: 'options',
+				options: [
+					{
+						name: 'Newest First',
+						value: 'newestFirst',
+					},
+					{
+						name: 'Oldest First',
+						value: 'oldestFirst',
+					},
+				],
+				default: 'newestFirst',
+				description:
+					'Order of the returned events. With a limit, Oldest First returns the oldest events after the since cursor.',
+			},
+		],
+	},
 ];
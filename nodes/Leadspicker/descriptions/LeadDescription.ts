@@ -1,7 +1,37 @@
 import type { INodeProperties } from 'n8n-workflow';
 
+import { REPLY_SENTIMENT_OPTIONS } from './ReplyDescription';
 import { MANUAL_ID_OPTION } from './Shared';
 
+const BULK_LEAD_FIELD_OPTIONS = [
+	{ name: 'Company LinkedIn', value: 'company_linkedin' },
+	{ name: 'Company Name', value: 'company_name' },
+	{ name: 'Company Website', value: 'company_website' },
+	{ name: 'Country', value: 'country' },
+	{ name: 'Custom Field', value: 'custom' },
+	{ name: 'Email', value: 'email' },
+	{ name: 'First Name', value: 'first_name' },
+	{ name: 'Full Name', value: 'full_name' },
+	{ name: 'Last Name', value: 'last_name' },
+	{ name: 'Lead LinkedIn', value: 'linkedin' },
+	{ name: 'Position', value: 'position' },
+	{ name: 'Sales Navigator', value: 'salesnav' },
+];
+
+const LEAD_INPUT_MODE_OPTIONS = [
+	{
+		name: 'Individual Fields',
+		value: 'fields',
+		description: 'Enter every lead field in its own parameter',
+	},
+	{
+		name: 'Map Fields',
+		value: 'mapper',
+		description:
+			'Map the lead and custom fields of the campaign, or map input fields automatically',
+	},
+];
+
 export const leadOperations: INodeProperties[] = [
 	{
 		displayName: 'Operation',
@@ -20,12 +50,36 @@ export const leadOperations: INodeProperties[] = [
 				description: 'Create multiple leads in a campaign',
 				action: 'Bulk create leads',
 			},
+			{
+				name: 'Bulk Delete Leads',
+				value: 'bulkDelete',
+				description: 'Delete many leads by ID in chunks',
+				action: 'Bulk delete leads',
+			},
+			{
+				name: 'Bulk Update Leads',
+				value: 'bulkUpdate',
+				description: 'Apply changes to many leads by ID in chunks',
+				action: 'Bulk update leads',
+			},
+			{
+				name: 'Copy Lead',
+				value: 'copy',
+				description: 'Copy a lead with all its data and custom fields to another campaign',
+				action: 'Copy a lead to another campaign',
+			},
 			{
 				name: 'Create Lead',
 				value: 'create',
 				description: 'Create a new lead in a campaign',
 				action: 'Create a lead',
 			},
+			{
+				name: 'Create or Update',
+				value: 'upsert',
+				description: 'Create a new record, or update the current one if it already exists (upsert)',
+				action: 'Create or update a lead',
+			},
 			{
 				name: 'Delete Lead',
 				value: 'delete',
@@ -50,12 +104,54 @@ export const leadOperations: INodeProperties[] = [
 				description: 'Get a lead by ID',
 				action: 'Get a lead',
 			},
+			{
+				name: 'Get Sequence Status',
+				value: 'getSequenceStatus',
+				description: "Get the state of a lead's sequence and its next scheduled step",
+				action: 'Get the sequence status of a lead',
+			},
 			{
 				name: 'List Leads',
 				value: 'list',
 				description: 'List leads in a campaign',
 				action: 'List leads',
 			},
+			{
+				name: 'Mark Lead as Replied',
+				value: 'markReplied',
+				description: 'Record a reply from a lead that arrived outside Leadspicker',
+				action: 'Mark a lead as replied',
+			},
+			{
+				name: 'Move Lead',
+				value: 'move',
+				description: 'Move a lead with all its data and custom fields to another campaign',
+				action: 'Move a lead to another campaign',
+			},
+			{
+				name: 'Pause Sequence',
+				value: 'pauseSequence',
+				description: "Pause a lead's sequence until it is resumed",
+				action: 'Pause the sequence of a lead',
+			},
+			{
+				name: 'Resume Sequence',
+				value: 'resumeSequence',
+				description: "Resume a lead's paused sequence",
+				action: 'Resume the sequence of a lead',
+			},
+			{
+				name: 'Search Leads',
+				value: 'search',
+				description: 'Find leads by email, name, company, LinkedIn URL or custom field value',
+				action: 'Search leads',
+			},
+			{
+				name: 'Stop Sequence',
+				value: 'stopSequence',
+				description: "End a lead's sequence so no further steps are sent",
+				action: 'Stop the sequence of a lead',
+			},
 			{
 				name: 'Update Lead',
 				value: 'update',
@@ -76,7 +172,7 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'list', 'bulkCreate'],
+				operation: ['create', 'list', 'bulkCreate', 'upsert'],
 			},
 		},
 		default: '',
@@ -98,13 +194,174 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'list', 'bulkCreate'],
+				operation: ['create', 'list', 'bulkCreate', 'upsert'],
 				projectId: [MANUAL_ID_OPTION],
 			},
 		},
 		default: 0,
 		description: 'ID of the campaign that contains the lead records',
 	},
+	{
+		displayName: 'Search All Campaigns',
+		name: 'searchAllCampaigns',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['search'],
+			},
+		},
+		default: false,
+		description:
+			'Whether to search the leads of every campaign instead of a single one. Every lead of every campaign is downloaded and filtered in n8n, which can use up a large part of the daily API quota on big accounts.',
+	},
+	{
+		displayName: 'Campaign Name or ID',
+		name: 'projectId',
+		type: 'options',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['search'],
+				searchAllCampaigns: [false],
+			},
+		},
+		default: '',
+		options: [
+			{ name: 'Select a campaign...', value: '' },
+			{ name: 'Enter Campaign ID manually...', value: MANUAL_ID_OPTION },
+		],
+		typeOptions: {
+			loadOptionsMethod: 'getCampaigns',
+		},
+		description:
+			'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+	},
+	{
+		displayName: 'Campaign ID',
+		name: 'projectIdManual',
+		type: 'number',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['search'],
+				searchAllCampaigns: [false],
+				projectId: [MANUAL_ID_OPTION],
+			},
+		},
+		default: 0,
+		description: 'ID of the campaign to search',
+	},
+	{
+		displayName: 'Search Criteria',
+		name: 'searchCriteria',
+		type: 'collection',
+		placeholder: 'Add Criterion',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['search'],
+			},
+		},
+		description: 'Leads must match all of the given criteria',
+		options: [
+			{
+				displayName: 'Company Name Contains',
+				name: 'companyName',
+				type: 'string',
+				default: '',
+				description: 'Text the company name must contain (case-insensitive)',
+			},
+			{
+				displayName: 'Custom Field Values',
+				name: 'customFields',
+				type: 'fixedCollection',
+				placeholder: 'Add Custom Field',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Field',
+						name: 'field',
+						values: [
+							{
+								displayName: 'Key',
+								name: 'key',
+								type: 'string',
+								default: '',
+								description: 'Custom field key',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+								description: 'Value the custom field must have (case-insensitive)',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Email',
+				name: 'email',
+				type: 'string',
+				placeholder: 'name@email.com',
+				default: '',
+				description: 'Email address of the lead (case-insensitive)',
+			},
+			{
+				displayName: 'LinkedIn URL',
+				name: 'linkedin',
+				type: 'string',
+				default: '',
+				description:
+					'LinkedIn profile URL of the lead, compared without protocol, "www", query string and trailing slash',
+			},
+			{
+				displayName: 'Name Contains',
+				name: 'name',
+				type: 'string',
+				default: '',
+				description: 'Text the full name of the lead must contain (case-insensitive)',
+			},
+		],
+	},
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['list', 'search'],
+			},
+		},
+		default: true,
+		description: 'Whether to return all results or only up to a given limit',
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['list', 'search'],
+				returnAll: [false],
+			},
+		},
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of results to return',
+	},
 	{
 		displayName: 'Lead Lookup Campaign Name or ID',
 		name: 'personLookupProjectId',
@@ -112,7 +369,18 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['get', 'update', 'delete'],
+				operation: [
+					'get',
+					'update',
+					'delete',
+					'move',
+					'copy',
+					'getSequenceStatus',
+					'markReplied',
+					'pauseSequence',
+					'resumeSequence',
+					'stopSequence',
+				],
 			},
 		},
 		default: '',
@@ -134,7 +402,18 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['get', 'update', 'delete'],
+				operation: [
+					'get',
+					'update',
+					'delete',
+					'move',
+					'copy',
+					'getSequenceStatus',
+					'markReplied',
+					'pauseSequence',
+					'resumeSequence',
+					'stopSequence',
+				],
 				personLookupProjectId: [MANUAL_ID_OPTION],
 			},
 		},
@@ -149,7 +428,18 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['get', 'update', 'delete'],
+				operation: [
+					'get',
+					'update',
+					'delete',
+					'move',
+					'copy',
+					'getSequenceStatus',
+					'markReplied',
+					'pauseSequence',
+					'resumeSequence',
+					'stopSequence',
+				],
 			},
 		},
 		default: '',
@@ -177,13 +467,206 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['get', 'update', 'delete'],
+				operation: [
+					'get',
+					'update',
+					'delete',
+					'move',
+					'copy',
+					'getSequenceStatus',
+					'markReplied',
+					'pauseSequence',
+					'resumeSequence',
+					'stopSequence',
+				],
 				personId: [MANUAL_ID_OPTION],
 			},
 		},
 		default: 0,
 		description: 'ID of the lead',
 	},
+	{
+		displayName: 'Sentiment',
+		name: 'replySentiment',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['markReplied'],
+			},
+		},
+		options: REPLY_SENTIMENT_OPTIONS,
+		default: 'interested',
+		description: 'Sentiment recorded for the reply',
+	},
+	{
+		displayName: 'Target Campaign Name or ID',
+		name: 'targetProjectId',
+		type: 'options',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['move', 'copy'],
+			},
+		},
+		default: '',
+		options: [
+			{ name: 'Select a campaign...', value: '' },
+			{ name: 'Enter Campaign ID manually...', value: MANUAL_ID_OPTION },
+		],
+		typeOptions: {
+			loadOptionsMethod: 'getCampaigns',
+		},
+		description:
+			'Campaign the lead is added to. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+	},
+	{
+		displayName: 'Target Campaign ID',
+		name: 'targetProjectIdManual',
+		type: 'number',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['move', 'copy'],
+				targetProjectId: [MANUAL_ID_OPTION],
+			},
+		},
+		default: 0,
+		description: 'ID of the campaign the lead is added to',
+	},
+	{
+		displayName: 'Exclude From Source Campaign',
+		name: 'excludeFromSource',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['move', 'copy'],
+			},
+		},
+		default: false,
+		description:
+			"Whether to add the lead's LinkedIn URL and email to the exclusion list of the source campaign so it is not contacted from there again",
+	},
+	{
+		displayName: 'Match By',
+		name: 'upsertMatchBy',
+		type: 'multiOptions',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['upsert'],
+			},
+		},
+		options: [
+			{ name: 'Email', value: 'email' },
+			{ name: 'LinkedIn URL', value: 'linkedin' },
+			{ name: 'Sales Navigator URL', value: 'salesnav' },
+		],
+		default: ['email', 'linkedin', 'salesnav'],
+		description:
+			'Lead fields used to find an existing lead in the campaign. A lead matching any of them is updated. URLs are compared without protocol, "www", query string and trailing slash.',
+	},
+	{
+		displayName: 'Input Mode',
+		name: 'leadInputMode',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['create', 'update'],
+				'@version': [1],
+			},
+		},
+		options: LEAD_INPUT_MODE_OPTIONS,
+		default: 'fields',
+		description: 'How the lead fields are entered',
+	},
+	{
+		displayName: 'Input Mode',
+		name: 'leadInputMode',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['create', 'update'],
+				'@version': [{ _cnd: { gte: 1.1 } }],
+			},
+		},
+		options: LEAD_INPUT_MODE_OPTIONS,
+		default: 'mapper',
+		description: 'How the lead fields are entered',
+	},
+	{
+		displayName: 'Name Format',
+		name: 'leadNameFormat',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['create', 'update'],
+				leadInputMode: ['mapper'],
+			},
+		},
+		options: [
+			{
+				name: 'First and Last Name',
+				value: 'separate',
+				description: 'Map the first and last name to separate fields',
+			},
+			{
+				name: 'Full Name',
+				value: 'fullName',
+				description:
+					'Map a single Full Name field. The first word becomes the first name, the rest the last name.',
+			},
+		],
+		default: 'separate',
+		description: 'How the name of the lead is provided',
+	},
+	{
+		displayName: 'Lead Fields',
+		name: 'leadFields',
+		type: 'resourceMapper',
+		noDataExpression: true,
+		required: true,
+		default: {
+			mappingMode: 'defineBelow',
+			value: null,
+		},
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['create', 'update'],
+				leadInputMode: ['mapper'],
+			},
+		},
+		typeOptions: {
+			loadOptionsDependsOn: [
+				'projectId',
+				'projectIdManual',
+				'personLookupProjectId',
+				'personLookupProjectIdManual',
+				'leadNameFormat',
+			],
+			resourceMapper: {
+				resourceMapperMethod: 'getLeadFields',
+				mode: 'add',
+				fieldWords: {
+					singular: 'field',
+					plural: 'fields',
+				},
+				addAllFields: true,
+				multiKeyMatch: false,
+				supportAutoMap: true,
+			},
+		},
+	},
 	{
 		displayName: 'Country',
 		name: 'leadCountry',
@@ -192,7 +675,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Country of the lead',
@@ -205,7 +691,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description:
@@ -220,7 +709,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Email address of the lead',
@@ -233,7 +725,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'First name of the lead',
@@ -246,7 +741,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Last name of the lead',
@@ -259,7 +757,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Job position/title of the lead',
@@ -272,7 +773,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Company name where the lead works',
@@ -285,7 +789,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Company website URL',
@@ -298,7 +805,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Company LinkedIn URL',
@@ -311,7 +821,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'Lead LinkedIn URL',
@@ -324,7 +837,10 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
+			},
+			hide: {
+				leadInputMode: ['mapper'],
 			},
 		},
 		description: 'LinkedIn Sales Navigator URL',
@@ -341,7 +857,7 @@ export const leadFields: INodeProperties[] = [
 		displayOptions: {
 			show: {
 				resource: ['person'],
-				operation: ['create', 'update'],
+				operation: ['create', 'update', 'upsert', 'bulkUpdate'],
 			},
 		},
 		options: [
@@ -349,12 +865,36 @@ export const leadFields: INodeProperties[] = [
 				displayName: 'Field',
 				name: 'field',
 				values: [
+					{
+						displayName: 'Key Name or ID',
+						name: 'keyName',
+						type: 'options',
+						options: [{ name: 'Enter Key manually...', value: MANUAL_ID_OPTION }],
+						typeOptions: {
+							loadOptionsMethod: 'getCustomFields',
+							loadOptionsDependsOn: [
+								'projectId',
+								'projectIdManual',
+								'personLookupProjectId',
+								'personLookupProjectIdManual',
+							],
+						},
+						// eslint-disable-next-line n8n-nodes-base/node-param-default-wrong-for-options
+						default: MANUAL_ID_OPTION,
+						description:
+							'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+					},
 					{
 						displayName: 'Key',
 						name: 'key',
 						type: 'string',
+						displayOptions: {
+							show: {
+								keyName: [MANUAL_ID_OPTION],
+							},
+						},
 						default: '',
-						description: 'Custom field key',
+						description: 'Custom field key, e.g. one the campaign does not have yet',
 					},
 					{
 						displayName: 'Value',
@@ -367,6 +907,210 @@ export const leadFields: INodeProperties[] = [
 			},
 		],
 	},
+	{
+		displayName: 'Unknown Custom Fields',
+		name: 'unknownCustomFields',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['create', 'update', 'upsert'],
+			},
+		},
+		options: [
+			{
+				name: 'Create New Columns',
+				value: 'allow',
+				description: 'Keys the campaign does not have yet become new custom columns',
+			},
+			{
+				name: 'Create New Columns With a Warning',
+				value: 'warn',
+				description: 'Create the new columns and show a warning naming the unknown keys',
+			},
+			{
+				name: 'Fail',
+				value: 'error',
+				description: 'Fail the item when a key is not a custom column of the campaign yet',
+			},
+		],
+		default: 'warn',
+		description:
+			"What happens when a custom field key is not one of the campaign's existing custom columns, e.g. because of a typo",
+	},
+	{
+		displayName: 'Lead IDs',
+		name: 'bulkLeadIds',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['bulkUpdate', 'bulkDelete'],
+			},
+		},
+		default: '',
+		placeholder: 'e.g. 1201, 1202, 1203',
+		description:
+			"IDs of the leads, separated by commas or new lines. The IDs of all input items are processed together; map one ID per item to apply each item's own changes.",
+	},
+	{
+		displayName: 'Max Leads to Delete',
+		name: 'bulkDeleteMaxLeads',
+		type: 'number',
+		typeOptions: {
+			minValue: 1,
+		},
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['bulkDelete'],
+			},
+		},
+		default: 100,
+		description:
+			'Safety limit. When more leads are selected, the operation fails without deleting anything; raise the limit to confirm a larger deletion.',
+	},
+	{
+		displayName: 'Options',
+		name: 'bulkOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['bulkUpdate', 'bulkDelete'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Chunk Size',
+				name: 'chunkSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 1000,
+				},
+				default: 100,
+				description: 'How many leads are sent to Leadspicker in one request',
+			},
+		],
+	},
+	{
+		displayName: 'Input Mode',
+		name: 'bulkInputMode',
+		type: 'options',
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['bulkCreate'],
+			},
+		},
+		options: [
+			{
+				name: 'Define Below',
+				value: 'define',
+				description: 'Create the leads entered in this node for each input item',
+			},
+			{
+				name: 'From Input Items',
+				value: 'items',
+				description: 'Create one lead per input item, sent to Leadspicker in chunks',
+			},
+		],
+		default: 'define',
+	},
+	{
+		displayName: 'Field Mapping',
+		name: 'bulkFieldMapping',
+		type: 'fixedCollection',
+		placeholder: 'Add Mapping',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['bulkCreate'],
+				bulkInputMode: ['items'],
+			},
+		},
+		description:
+			'Which input field fills which lead field. Leave empty to map input fields whose names match lead fields, e.g. "Email", "First Name" or "linkedin_url".',
+		options: [
+			{
+				name: 'mapping',
+				displayName: 'Mapping',
+				values: [
+					{
+						displayName: 'Input Field',
+						name: 'sourceField',
+						type: 'string',
+						default: '',
+						placeholder: 'e.g. Work Email',
+						description: 'Name of the field in the input item',
+					},
+					{
+						displayName: 'Lead Field',
+						name: 'leadField',
+						type: 'options',
+						options: BULK_LEAD_FIELD_OPTIONS,
+						default: 'email',
+						description: 'Lead field the value is written to',
+					},
+					{
+						displayName: 'Custom Field Key',
+						name: 'customFieldKey',
+						type: 'string',
+						default: '',
+						displayOptions: {
+							show: {
+								leadField: ['custom'],
+							},
+						},
+						description: 'Key of the custom field the value is written to',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Options',
+		name: 'bulkOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['person'],
+				operation: ['bulkCreate'],
+				bulkInputMode: ['items'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Chunk Size',
+				name: 'chunkSize',
+				type: 'number',
+				typeOptions: {
+					minValue: 1,
+					maxValue: 1000,
+				},
+				default: 100,
+				description: 'How many leads are sent to Leadspicker in one request',
+			},
+			{
+				displayName: 'Send Unmapped Fields as Custom Fields',
+				name: 'unmappedAsCustomFields',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether input fields that are not mapped to a lead field are added to the lead as custom fields',
+			},
+		],
+	},
 	{
 		displayName: 'Leads',
 		name: 'bulkLeads',
@@ -381,6 +1125,7 @@ export const leadFields: INodeProperties[] = [
 			show: {
 				resource: ['person'],
 				operation: ['bulkCreate'],
+				bulkInputMode: ['define'],
 			},
 		},
 		options: [
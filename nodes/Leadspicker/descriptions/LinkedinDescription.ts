@@ -353,6 +353,36 @@ export const linkedinActivityFields: INodeProperties[] = [
 			},
 		],
 	},
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['linkedinActivity'],
+				operation: ['searchPostReactors', 'profilesPostReactors'],
+			},
+		},
+		default: true,
+		description: 'Whether to return all results or only up to a given limit',
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		displayOptions: {
+			show: {
+				resource: ['linkedinActivity'],
+				operation: ['searchPostReactors', 'profilesPostReactors'],
+				returnAll: [false],
+			},
+		},
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of results to return',
+	},
 	{
 		displayName: 'Interactors Search Options',
 		name: 'reactorsSearchOptions',
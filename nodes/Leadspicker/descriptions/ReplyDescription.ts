@@ -1,7 +1,120 @@
-import type { INodeProperties } from 'n8n-workflow';
+import type { INodeProperties, INodePropertyOptions } from 'n8n-workflow';
 
 import { MANUAL_ID_OPTION } from './Shared';
 
+export const REPLY_SENTIMENT_OPTIONS: INodePropertyOptions[] = [
+	{ name: 'Interested', value: 'interested' },
+	{ name: 'Negative', value: 'negative' },
+	{ name: 'Neutral', value: 'neutral' },
+	{ name: 'Not Interested', value: 'not_interested' },
+	{ name: 'Positive', value: 'positive' },
+];
+
+/** Filters shared by the Reply list operation and the polling trigger. */
+export const replyFilterOptions: INodeProperties[] = [
+	{
+		displayName: 'Email Accounts',
+		name: 'email_accounts',
+		type: 'fixedCollection',
+		placeholder: 'Add Email Account',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: {},
+		description: 'Email accounts to filter by',
+		options: [
+			{
+				name: 'email',
+				displayName: 'Email',
+				values: [
+					{
+						displayName: 'Email Address',
+						name: 'address',
+						type: 'string',
+						default: '',
+						placeholder: 'john@doe.com',
+						description: 'Email address to filter by',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Campaigns',
+		name: 'projects',
+		type: 'fixedCollection',
+		placeholder: 'Add Campaign',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: {},
+		description: 'Campaign IDs to filter by',
+		options: [
+			{
+				name: 'project',
+				displayName: 'Campaign',
+				values: [
+					{
+						displayName: 'Campaign Name or ID',
+						name: 'id',
+						type: 'options',
+						default: '',
+						options: [
+							{ name: 'Select a campaign...', value: '' },
+							{ name: 'Enter Campaign ID manually...', value: MANUAL_ID_OPTION },
+						],
+						typeOptions: {
+							loadOptionsMethod: 'getCampaigns',
+						},
+						description:
+							'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+					},
+					{
+						displayName: 'Campaign ID',
+						name: 'idManual',
+						type: 'number',
+						required: true,
+						displayOptions: {
+							show: {
+								id: [MANUAL_ID_OPTION],
+							},
+						},
+						default: 0,
+						description: 'Campaign ID to filter by',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Sentiment',
+		name: 'sentiment',
+		type: 'fixedCollection',
+		placeholder: 'Add Sentiment',
+		typeOptions: {
+			multipleValues: true,
+		},
+		default: {},
+		description: 'Sentiment values to filter by',
+		options: [
+			{
+				name: 'sentiment_value',
+				displayName: 'Sentiment',
+				values: [
+					{
+						displayName: 'Sentiment Type',
+						name: 'type',
+						type: 'options',
+						default: 'positive',
+						options: REPLY_SENTIMENT_OPTIONS,
+						description: 'Sentiment type to filter by',
+					},
+				],
+			},
+		],
+	},
+];
+
 export const replyOperations: INodeProperties[] = [
 	{
 		displayName: 'Operation',
@@ -26,6 +139,36 @@ export const replyOperations: INodeProperties[] = [
 ];
 
 export const replyFields: INodeProperties[] = [
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['reply'],
+				operation: ['list'],
+			},
+		},
+		default: true,
+		description: 'Whether to return all results or only up to a given limit',
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		displayOptions: {
+			show: {
+				resource: ['reply'],
+				operation: ['list'],
+				returnAll: [false],
+			},
+		},
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of results to return',
+	},
 	{
 		displayName: 'Filters',
 		name: 'replyFilters',
@@ -38,114 +181,6 @@ export const replyFields: INodeProperties[] = [
 				operation: ['list'],
 			},
 		},
-		options: [
-			{
-				displayName: 'Email Accounts',
-				name: 'email_accounts',
-				type: 'fixedCollection',
-				placeholder: 'Add Email Account',
-				typeOptions: {
-					multipleValues: true,
-				},
-				default: {},
-				description: 'Email accounts to filter by',
-				options: [
-					{
-						name: 'email',
-						displayName: 'Email',
-						values: [
-							{
-								displayName: 'Email Address',
-								name: 'address',
-								type: 'string',
-								default: '',
-								placeholder: 'john@doe.com',
-								description: 'Email address to filter by',
-							},
-						],
-					},
-				],
-			},
-			{
-				displayName: 'Campaigns',
-				name: 'projects',
-				type: 'fixedCollection',
-				placeholder: 'Add Campaign',
-				typeOptions: {
-					multipleValues: true,
-				},
-				default: {},
-				description: 'Campaign IDs to filter by',
-				options: [
-					{
-						name: 'project',
-						displayName: 'Campaign',
-						values: [
-							{
-								displayName: 'Campaign Name or ID',
-								name: 'id',
-								type: 'options',
-								default: '',
-								options: [
-									{ name: 'Select a campaign...', value: '' },
-									{ name: 'Enter Campaign ID manually...', value: MANUAL_ID_OPTION },
-								],
-								typeOptions: {
-									loadOptionsMethod: 'getCampaigns',
-								},
-								description:
-									'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
-							},
-							{
-								displayName: 'Campaign ID',
-								name: 'idManual',
-								type: 'number',
-								required: true,
-								displayOptions: {
-									show: {
-										id: [MANUAL_ID_OPTION],
-									},
-								},
-								default: 0,
-								description: 'Campaign ID to filter by',
-							},
-						],
-					},
-				],
-			},
-			{
-				displayName: 'Sentiment',
-				name: 'sentiment',
-				type: 'fixedCollection',
-				placeholder: 'Add Sentiment',
-				typeOptions: {
-					multipleValues: true,
-				},
-				default: {},
-				description: 'Sentiment values to filter by',
-				options: [
-					{
-						name: 'sentiment_value',
-						displayName: 'Sentiment',
-						values: [
-							{
-								displayName: 'Sentiment Type',
-								name: 'type',
-								type: 'options',
-								default: 'positive',
-								options: [
-									{ name: 'Interested', value: 'interested' },
-									{ name: 'Negative', value: 'negative' },
-									{ name: 'Neutral', value: 'neutral' },
-									{ name: 'Not Interested', value: 'not_interested' },
-									{ name: 'Positive', value: 'positive' },
-								],
-								description: 'Sentiment type to filter by',
-							},
-						],
-					},
-				],
-			},
-		],
+		options: replyFilterOptions,
 	},
 ];
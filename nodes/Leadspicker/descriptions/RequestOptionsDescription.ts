@@ -0,0 +1,97 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+export const requestOptionsFields: INodeProperties[] = [
+	{
+		displayName: 'Request Options',
+		name: 'requestOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		options: [
+			{
+				displayName: 'Daily Quota Reserve',
+				name: 'dailyQuotaReserve',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					'Number of daily API calls to leave untouched for other workflows. Only used when "On Daily Quota Exhausted" is not "Send Requests Anyway".',
+			},
+			{
+				displayName: 'Initial Retry Delay (Milliseconds)',
+				name: 'initialRetryDelay',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 1000,
+				description:
+					'Delay before the first retry. Later retries double it (with jitter) unless Leadspicker sends a Retry-After header.',
+			},
+			{
+				displayName: 'Max Retries',
+				name: 'maxRetries',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 5,
+				description: 'How many times a failed request is retried before the error is returned',
+			},
+			{
+				displayName: 'Max Retry Delay (Milliseconds)',
+				name: 'maxRetryDelay',
+				type: 'number',
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 60000,
+				description: 'Upper bound for a single wait between retries',
+			},
+			{
+				displayName: 'On Daily Quota Exhausted',
+				name: 'onDailyQuotaExhausted',
+				type: 'options',
+				default: 'ignore',
+				options: [
+					{
+						name: 'Route Remaining Items to Second Output',
+						value: 'outputUnprocessed',
+						description:
+							'Stop calling Leadspicker and emit the unprocessed input items on an "Unprocessed" output',
+					},
+					{
+						name: 'Send Requests Anyway',
+						value: 'ignore',
+						description: 'Keep sending requests and let Leadspicker reject them',
+					},
+					{
+						name: 'Stop With Error',
+						value: 'stop',
+						description: 'Fail the execution with a clear error before the quota is exceeded',
+					},
+				],
+				description:
+					'What to do when the daily API quota shared by all executions using this credential is about to run out',
+			},
+			{
+				displayName: 'Retry Non-Idempotent Requests',
+				name: 'retryNonIdempotent',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to also retry POST and PATCH requests after server errors or dropped connections. This may create duplicates if Leadspicker already processed the request.',
+			},
+			{
+				displayName: 'Retry on Server Errors',
+				name: 'retryOnServerErrors',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether to retry HTTP 500, 502, 503 and 504 responses and network failures such as ECONNRESET. Rate-limited (429) requests are always retried.',
+			},
+		],
+	},
+];
@@ -0,0 +1,283 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+import { WEBHOOK_FEATURE_OPTIONS } from '../EventCatalog';
+
+export { WEBHOOK_FEATURE_OPTIONS };
+
+const campaignsProperty: INodeProperties = {
+	displayName: 'Campaign Names or IDs',
+	name: 'webhookProjectIds',
+	type: 'multiOptions',
+	default: [],
+	typeOptions: {
+		loadOptionsMethod: 'getCampaigns',
+	},
+	description:
+		'Campaigns the webhook is limited to. Leave empty for all campaigns. Choose from the list, or specify IDs using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+};
+
+export const webhookOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+			},
+		},
+		options: [
+			{
+				name: 'Check and Repair Webhook',
+				value: 'repair',
+				description:
+					'Check that a webhook delivers to the URL and re-create it if it was deleted, e.g. on a schedule for the URL of a Leadspicker Trigger',
+				action: 'Check and repair a webhook',
+			},
+			{
+				name: 'Create Webhook',
+				value: 'create',
+				description: 'Register a new webhook',
+				action: 'Create a webhook',
+			},
+			{
+				name: 'Delete Webhook',
+				value: 'delete',
+				description: 'Delete a webhook',
+				action: 'Delete a webhook',
+			},
+			{
+				name: 'Get Webhook',
+				value: 'get',
+				description: 'Get a webhook by ID',
+				action: 'Get a webhook',
+			},
+			{
+				name: 'Get Webhooks',
+				value: 'list',
+				description: 'List the webhooks registered for the account',
+				action: 'Get webhooks',
+			},
+			{
+				name: 'Send Test Event',
+				value: 'testFire',
+				description: 'Ask Leadspicker to deliver a test payload to the webhook URL',
+				action: 'Send a test event to a webhook',
+			},
+			{
+				name: 'Update Webhook',
+				value: 'update',
+				description: 'Change the name, URL, events or campaigns of a webhook',
+				action: 'Update a webhook',
+			},
+		],
+		default: 'list',
+	},
+];
+
+export const webhookFields: INodeProperties[] = [
+	{
+		displayName: 'Webhook ID',
+		name: 'webhookId',
+		type: 'number',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['delete', 'get', 'testFire', 'update'],
+			},
+		},
+		default: 0,
+		description: 'ID of the webhook',
+	},
+	{
+		displayName: 'Name',
+		name: 'webhookName',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['create', 'repair'],
+			},
+		},
+		default: '',
+		description: 'Name displayed for the webhook in Leadspicker',
+	},
+	{
+		displayName: 'URL',
+		name: 'webhookUrl',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['create', 'repair'],
+			},
+		},
+		default: '',
+		placeholder: 'https://example.com/hooks/leadspicker',
+		description: 'URL Leadspicker delivers the events to',
+	},
+	{
+		displayName: 'Events',
+		name: 'webhookFeatures',
+		type: 'multiOptions',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['create', 'repair'],
+			},
+		},
+		options: WEBHOOK_FEATURE_OPTIONS,
+		default: [],
+		description: 'Events delivered to the webhook',
+	},
+	{
+		...campaignsProperty,
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['create', 'repair'],
+			},
+		},
+	},
+	{
+		displayName: 'Additional Fields',
+		name: 'webhookAdditionalFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['create', 'repair'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Secret',
+				name: 'secret',
+				type: 'string',
+				typeOptions: { password: true },
+				default: '',
+				description: 'Secret Leadspicker uses to sign the deliveries',
+			},
+			{
+				displayName: 'Send Test Event',
+				name: 'fireTestPayload',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to deliver a test payload right after the webhook is created',
+			},
+		],
+	},
+	{
+		displayName: 'Update Fields',
+		name: 'webhookUpdateFields',
+		type: 'collection',
+		placeholder: 'Add Field',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['update'],
+			},
+		},
+		options: [
+			campaignsProperty,
+			{
+				displayName: 'Events',
+				name: 'webhookFeatures',
+				type: 'multiOptions',
+				options: WEBHOOK_FEATURE_OPTIONS,
+				default: [],
+				description: 'Events delivered to the webhook',
+			},
+			{
+				displayName: 'Name',
+				name: 'webhookName',
+				type: 'string',
+				default: '',
+				description: 'Name displayed for the webhook in Leadspicker',
+			},
+			{
+				displayName: 'URL',
+				name: 'webhookUrl',
+				type: 'string',
+				default: '',
+				description: 'URL Leadspicker delivers the events to',
+			},
+		],
+	},
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['list'],
+			},
+		},
+		default: true,
+		description: 'Whether to return all results or only up to a given limit',
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['list'],
+				returnAll: [false],
+			},
+		},
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of results to return',
+	},
+	{
+		displayName: 'Filters',
+		name: 'webhookFilters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['webhook'],
+				operation: ['list'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Event',
+				name: 'feature',
+				type: 'options',
+				options: WEBHOOK_FEATURE_OPTIONS,
+				default: 'email_reply',
+				description: 'Only return webhooks subscribed to this event',
+			},
+			{
+				displayName: 'Name Contains',
+				name: 'name',
+				type: 'string',
+				default: '',
+				placeholder: 'N8N Leadspicker Webhook',
+				description: 'Only return webhooks whose name contains this text (case-insensitive)',
+			},
+			{
+				displayName: 'URL Contains',
+				name: 'url',
+				type: 'string',
+				default: '',
+				description: 'Only return webhooks whose URL contains this text (case-insensitive)',
+			},
+		],
+	},
+];
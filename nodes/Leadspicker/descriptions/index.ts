@@ -5,4 +5,6 @@ export * from './LeadDescription';
 export * from './LinkedinDescription';
 export * from './OutreachDescription';
 export * from './ReplyDescription';
+export * from './RequestOptionsDescription';
 export * from './Shared';
+export * from './WebhookDescription';
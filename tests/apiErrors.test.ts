@@ -0,0 +1,112 @@
+import { strict as assert } from 'node:assert';
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import {
+	createLeadspickerApiError,
+	extractValidationErrors,
+	getErrorOutput,
+} from '../nodes/Leadspicker/GenericFunctions';
+
+const node = { name: 'Leadspicker Test Node', type: 'leadspicker' } as INode;
+
+function httpError(status: number, data?: unknown) {
+	return {
+		message: `Request failed with status code ${status}`,
+		httpCode: status.toString(),
+		cause: { response: { status, headers: {}, data } },
+	};
+}
+
+describe('Leadspicker API errors', () => {
+	describe('extractValidationErrors', () => {
+		it('reads FastAPI-style detail lists', () => {
+			const payload = {
+				detail: [
+					{ loc: ['body', 'email'], msg: 'value is not a valid email address' },
+					{ loc: ['body'], msg: 'field required' },
+				],
+			};
+			assert.deepEqual(extractValidationErrors(payload), [
+				{ field: 'email', message: 'value is not a valid email address' },
+				{ field: null, message: 'field required' },
+			]);
+		});
+
+		it('reads plain detail strings and per-field message lists', () => {
+			assert.deepEqual(extractValidationErrors({ detail: 'Project is archived' }), [
+				{ field: null, message: 'Project is archived' },
+			]);
+			assert.deepEqual(
+				extractValidationErrors({ linkedin: ['Invalid URL'], non_field_errors: ['Duplicate'] }),
+				[
+					{ field: 'linkedin', message: 'Invalid URL' },
+					{ field: null, message: 'Duplicate' },
+				],
+			);
+		});
+	});
+
+	describe('createLeadspickerApiError', () => {
+		it('maps status codes to readable messages and stable codes', () => {
+			const unauthorized = createLeadspickerApiError(node, httpError(401), '/auth/me');
+			assert.equal(unauthorized.httpCode, '401');
+			assert.equal(unauthorized.context.leadspickerCode, 'unauthorized');
+			assert.match(unauthorized.message, /API token/);
+
+			const missingLead = createLeadspickerApiError(node, httpError(404), '/persons/12');
+			assert.equal(missingLead.context.leadspickerCode, 'not_found');
+			assert.equal(missingLead.message, 'The requested lead was not found');
+
+			const missingCampaign = createLeadspickerApiError(node, httpError(404), '/projects/3/events');
+			assert.equal(missingCampaign.message, 'The requested campaign was not found');
+		});
+
+		it('includes field-level validation messages for 422 responses', () => {
+			const error = createLeadspickerApiError(
+				node,
+				httpError(422, { detail: [{ loc: ['body', 'project_id'], msg: 'field required' }] }),
+				'/persons',
+			);
+			assert.equal(error.context.leadspickerCode, 'validation_failed');
+			assert.equal(error.description, 'project_id: field required');
+			assert.deepEqual(error.context.validationErrors, [
+				{ field: 'project_id', message: 'field required' },
+			]);
+		});
+
+		it('reports network failures without an HTTP status', () => {
+			const error = createLeadspickerApiError(node, {
+				message: 'socket hang up',
+				cause: { code: 'ECONNRESET' },
+			});
+			assert.equal(error.context.leadspickerCode, 'network_error');
+			assert.equal(error.httpCode, null);
+		});
+	});
+
+	describe('getErrorOutput', () => {
+		it('exposes code, status and validation errors for continue-on-fail items', () => {
+			const error = createLeadspickerApiError(
+				node,
+				httpError(400, { email: ['Enter a valid email address.'] }),
+				'/persons',
+			);
+			assert.deepEqual(getErrorOutput(error), {
+				error: 'Leadspicker rejected the request',
+				code: 'bad_request',
+				httpCode: 400,
+				description: 'email: Enter a valid email address.',
+				validationErrors: [{ field: 'email', message: 'Enter a valid email address.' }],
+			});
+		});
+
+		it('falls back to generic codes for non-API errors', () => {
+			const operationError = new NodeOperationError(node, 'Please select a valid project.');
+			assert.deepEqual(getErrorOutput(operationError), {
+				error: 'Please select a valid project.',
+				code: 'operation_error',
+				httpCode: null,
+			});
+		});
+	});
+});
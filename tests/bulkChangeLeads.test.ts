@@ -0,0 +1,121 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+const LEAD_PARAMS: IDataObject = {
+	resource: 'person',
+	leadCountry: '',
+	leadFullName: '',
+	leadEmail: '',
+	leadFirstName: '',
+	leadLastName: '',
+	leadPosition: '',
+	leadCompanyName: '',
+	leadCompanyWebsite: '',
+	leadCompanyLinkedin: '',
+	leadLinkedin: '',
+	leadSalesNavigator: '',
+	customFields: { field: [] },
+};
+
+describe('Bulk Update and Bulk Delete Leads', () => {
+	const node = new Leadspicker();
+
+	it('applies the same changes to every listed lead in chunks', async () => {
+		const { context, requests } = createContext(
+			{
+				...LEAD_PARAMS,
+				operation: 'bulkUpdate',
+				leadPosition: 'CEO',
+				bulkOptions: { chunkSize: 2 },
+			},
+			[[{ id: 1, person_data: { position: 'CEO' } }], { errors: [{ id: 3, error: 'Not found' }] }],
+			{ itemParams: [{ bulkLeadIds: '1, 2\n3' }] },
+		);
+		const [output] = await node.execute.call(context);
+		assert.deepEqual(
+			requests.map((request) => `${request.method} ${request.url}`),
+			['PATCH /persons/bulk', 'PATCH /persons/bulk'],
+		);
+		assert.deepEqual(requests[0].body.persons, [
+			{ data_source: 'user_provided', position: 'CEO', id: 1 },
+			{ data_source: 'user_provided', position: 'CEO', id: 2 },
+		]);
+		assert.deepEqual(
+			output.map((item) => [item.json.id, item.json.success, item.json.error]),
+			[
+				[1, true, undefined],
+				[2, true, undefined],
+				[3, false, 'Not found'],
+			],
+		);
+		assert.equal(output[0].json.position, 'CEO');
+	});
+
+	it('sends per-item changes and pairs each result with its item', async () => {
+		const { context, requests } = createContext({ ...LEAD_PARAMS, operation: 'bulkUpdate' }, [[]], {
+			itemParams: [
+				{ bulkLeadIds: '1', leadEmail: 'a@acme.com' },
+				{ bulkLeadIds: 2, leadEmail: 'b@acme.com' },
+			],
+		});
+		const [output] = await node.execute.call(context);
+		assert.deepEqual(
+			(requests[0].body.persons as IDataObject[]).map((lead) => [lead.id, lead.email]),
+			[
+				[1, 'a@acme.com'],
+				[2, 'b@acme.com'],
+			],
+		);
+		assert.deepEqual(
+			output.map((item) => item.pairedItem),
+			[{ item: 0 }, { item: 1 }],
+		);
+	});
+
+	it('deletes the leads of all items together', async () => {
+		const { context, requests } = createContext({ ...LEAD_PARAMS, operation: 'bulkDelete' }, [{}], {
+			itemParams: [{ bulkLeadIds: '1,2' }, { bulkLeadIds: '3' }],
+		});
+		const [output] = await node.execute.call(context);
+		assert.deepEqual(requests, [
+			{ method: 'DELETE', url: '/persons/bulk', body: { ids: [1, 2, 3] } },
+		]);
+		assert.equal(output.length, 3);
+		assert.ok(output.every((item) => item.json.success === true));
+	});
+
+	it('refuses to delete more leads than allowed without sending anything', async () => {
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, operation: 'bulkDelete', bulkDeleteMaxLeads: 2 },
+			[],
+			{ itemParams: [{ bulkLeadIds: '1,2,3' }] },
+		);
+		await assert.rejects(node.execute.call(context), /Refusing to delete 3 leads/);
+		assert.equal(requests.length, 0);
+	});
+
+	it('rejects invalid lead IDs', async () => {
+		const { context } = createContext({ ...LEAD_PARAMS, operation: 'bulkDelete' }, [], {
+			itemParams: [{ bulkLeadIds: '1, abc' }],
+		});
+		await assert.rejects(node.execute.call(context), /"abc" is not a valid lead ID/);
+	});
+
+	it('reports items with invalid lead IDs as failed with Continue On Fail', async () => {
+		const { context, requests } = createContext({ ...LEAD_PARAMS, operation: 'bulkDelete' }, [{}], {
+			itemParams: [{ bulkLeadIds: '1, abc' }, { bulkLeadIds: '2' }],
+		});
+		(context as any).continueOnFail = () => true;
+		const [output] = await node.execute.call(context);
+		assert.deepEqual(requests[0].body, { ids: [2] });
+		assert.deepEqual(
+			output.map((item) => [item.json.success, item.pairedItem]),
+			[
+				[false, { item: 0 }],
+				[true, { item: 1 }],
+			],
+		);
+	});
+});
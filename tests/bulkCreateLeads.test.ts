@@ -0,0 +1,148 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject } from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+const BULK_PARAMS: IDataObject = {
+	resource: 'person',
+	operation: 'bulkCreate',
+	bulkInputMode: 'items',
+	projectId: '12',
+};
+
+describe('Bulk Create Leads from input items', () => {
+	const node = new Leadspicker();
+
+	it('maps input fields by name and sends the leads in chunks', async () => {
+		const { context, requests } = createContext(
+			{ ...BULK_PARAMS, bulkOptions: { chunkSize: 2, unmappedAsCustomFields: true } },
+			[[{ id: 1 }, { id: 2 }], [{ id: 3 }]],
+			{
+				items: [
+					{ Email: 'a@acme.com', 'Full Name': 'Ann Lee', Segment: 'SaaS' },
+					{ email: 'b@acme.com', linkedin_url: 'https://linkedin.com/in/b' },
+					{ Email: 'c@acme.com' },
+				],
+			},
+		);
+		const [output] = await node.execute.call(context);
+		assert.equal(requests.length, 2);
+		assert.deepEqual((requests[0].body.persons as IDataObject[])[0], {
+			data_source: 'user_provided',
+			email: 'a@acme.com',
+			first_name: 'Ann',
+			last_name: 'Lee',
+			custom_fields: { Segment: 'SaaS' },
+		});
+		assert.equal(
+			(requests[0].body.persons as IDataObject[])[1].linkedin,
+			'https://linkedin.com/in/b',
+		);
+		assert.deepEqual(
+			output.map((item) => [item.json.success, item.json.id, item.pairedItem]),
+			[
+				[true, 1, { item: 0 }],
+				[true, 2, { item: 1 }],
+				[true, 3, { item: 2 }],
+			],
+		);
+	});
+
+	it('uses the explicit field mapping', async () => {
+		const { context, requests } = createContext(
+			{
+				...BULK_PARAMS,
+				bulkFieldMapping: {
+					mapping: [
+						{ sourceField: 'Work Email', leadField: 'email' },
+						{ sourceField: 'Industry', leadField: 'custom', customFieldKey: 'industry' },
+					],
+				},
+			},
+			[[{ id: 1 }]],
+			{ items: [{ 'Work Email': 'a@acme.com', Industry: 'Retail', email: 'ignored@acme.com' }] },
+		);
+		await node.execute.call(context);
+		assert.deepEqual((requests[0].body.persons as IDataObject[])[0], {
+			data_source: 'user_provided',
+			email: 'a@acme.com',
+			custom_fields: { industry: 'Retail' },
+		});
+	});
+
+	it('reports failed rows and chunks without stopping the import', async () => {
+		const chunkError = new NodeApiError(
+			{ name: 'Leadspicker Test Node' } as any,
+			{ message: 'Bad request' },
+			{ httpCode: '400', message: 'Bad request' },
+		);
+		const { context } = createContext(
+			{ ...BULK_PARAMS, bulkOptions: { chunkSize: 2 } },
+			[[{ id: 1 }, { error: 'Invalid email' }], chunkError],
+			{
+				items: [
+					{ email: 'a@acme.com' },
+					{ foo: 'bar' },
+					{ email: 'b@acme.com' },
+					{ email: 'c@acme.com' },
+				],
+			},
+		);
+		const [output] = await node.execute.call(context);
+		assert.deepEqual(
+			output.map((item) => [item.json.success, item.pairedItem]),
+			[
+				[true, { item: 0 }],
+				[false, { item: 1 }],
+				[false, { item: 2 }],
+				[false, { item: 3 }],
+			],
+		);
+		assert.match(output[1].json.error as string, /no fields that map/);
+		assert.equal(output[2].json.error, 'Invalid email');
+		assert.deepEqual(output[3].json.input, { data_source: 'user_provided', email: 'c@acme.com' });
+	});
+
+	it('matches returned leads by email and reports leads without a result as failed', async () => {
+		const { context } = createContext(
+			BULK_PARAMS,
+			[
+				[
+					{ id: 3, person_data: { email: 'C@acme.com' } },
+					{ id: 1, person_data: { email: 'a@acme.com' } },
+				],
+			],
+			{ items: [{ email: 'a@acme.com' }, { email: 'b@acme.com' }, { email: 'c@acme.com' }] },
+		);
+		const [output] = await node.execute.call(context);
+		assert.deepEqual(
+			output.map((item) => [item.json.success, item.json.id]),
+			[
+				[true, 1],
+				[false, undefined],
+				[true, 3],
+			],
+		);
+		assert.match(output[1].json.error as string, /no result for this lead/);
+	});
+
+	it('stops on request-level failures unless Continue On Fail is on', async () => {
+		const unauthorized = new NodeApiError(
+			{ name: 'Leadspicker Test Node' } as any,
+			{ message: 'Unauthorized' },
+			{ httpCode: '401', message: 'Unauthorized' },
+		);
+		const { context } = createContext(BULK_PARAMS, [unauthorized], {
+			items: [{ email: 'a@acme.com' }],
+		});
+		await assert.rejects(node.execute.call(context), /rejected the API token/);
+
+		const tolerant = createContext(BULK_PARAMS, [unauthorized], {
+			items: [{ email: 'a@acme.com' }],
+		});
+		(tolerant.context as any).continueOnFail = () => true;
+		const [output] = await node.execute.call(tolerant.context);
+		assert.equal(output[0].json.success, false);
+	});
+});
@@ -0,0 +1,209 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject } from 'n8n-workflow';
+import { NodeApiError } from 'n8n-workflow';
+import { getCampaignCustomFields } from '../nodes/Leadspicker/GenericFunctions';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { MANUAL_ID_OPTION } from '../nodes/Leadspicker/descriptions';
+import { createContext } from './helpers';
+import type { RecordedRequest } from './helpers';
+
+const LEAD_PARAMS: IDataObject = {
+	operation: 'create',
+	projectId: '12',
+	leadCountry: '',
+	leadFullName: '',
+	leadEmail: 'jane@acme.com',
+	leadFirstName: '',
+	leadLastName: '',
+	leadPosition: '',
+	leadCompanyName: '',
+	leadCompanyWebsite: '',
+	leadCompanyLinkedin: '',
+	leadLinkedin: '',
+	leadSalesNavigator: '',
+	customFields: { field: [{ key: 'Industy', value: 'Retail' }] },
+};
+
+function requestKey({ method, url }: RecordedRequest) {
+	return `${method} ${url.split('?')[0]}`;
+}
+
+/** Answers each request with the response stored under its method and path. */
+function byRequest(responses: Record<string, unknown>) {
+	return (request: RecordedRequest) => responses[requestKey(request)];
+}
+
+describe('Custom field discovery', () => {
+	const responses = {
+		'GET /projects/12': { id: 12, custom_columns: [{ key: 'Industry', type: 'string' }, 'Score'] },
+	};
+
+	it('reads the columns a campaign declares', async () => {
+		const { context } = createContext(LEAD_PARAMS, byRequest(responses));
+		assert.deepEqual(await getCampaignCustomFields.call(context, 12), [
+			{ key: 'Industry', type: 'string' },
+			{ key: 'Score', type: 'string' },
+		]);
+	});
+
+	it("falls back to the custom fields of the campaign's leads and infers their types", async () => {
+		const { context } = createContext(
+			LEAD_PARAMS,
+			byRequest({
+				'GET /projects/12': { id: 12 },
+				'GET /persons-simple': [
+					{ id: 1, custom_fields: { score: null, vip: true } },
+					{ id: 2, custom_fields: { score: { value: 7 }, segment: 'SaaS' } },
+				],
+			}),
+		);
+		assert.deepEqual(await getCampaignCustomFields.call(context, 12), [
+			{ key: 'score', type: 'number' },
+			{ key: 'segment', type: 'string' },
+			{ key: 'vip', type: 'boolean' },
+		]);
+	});
+
+	it('offers the standard and custom lead fields to the resource mapper', async () => {
+		const { context } = createContext(LEAD_PARAMS, byRequest(responses));
+		const { fields } = await new Leadspicker().methods.resourceMapping.getLeadFields.call(context);
+		assert.deepEqual(
+			fields.map((field) => field.id),
+			[
+				'country',
+				'email',
+				'first_name',
+				'last_name',
+				'position',
+				'company_name',
+				'company_website',
+				'company_linkedin',
+				'linkedin',
+				'salesnav',
+				'custom_field:Industry',
+				'custom_field:Score',
+			],
+		);
+	});
+
+	it('fails on an unknown key and suggests the existing column', async () => {
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, unknownCustomFields: 'error' },
+			byRequest(responses),
+		);
+		await assert.rejects(
+			(Leadspicker as any).handleLeadOperations(context, 0),
+			/no custom field "Industy" \(did you mean "Industry"\?\)/,
+		);
+		assert.deepEqual(requests.map(requestKey), ['GET /projects/12']);
+	});
+
+	it('creates the lead with a warning by default', async () => {
+		const { context, requests, hints } = createContext(LEAD_PARAMS, byRequest(responses));
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		assert.deepEqual(requests.map(requestKey), ['GET /projects/12', 'POST /persons']);
+		assert.equal(hints.length, 1);
+		assert.equal(hints[0].type, 'warning');
+	});
+
+	it('adds no warning when the lead could not be saved', async () => {
+		const rejected = new NodeApiError(
+			{ name: 'Leadspicker Test Node' } as any,
+			{ message: 'Bad Request' },
+			{ httpCode: '400', message: 'Bad Request' },
+		);
+		const { context, hints } = createContext(
+			LEAD_PARAMS,
+			byRequest({ ...responses, 'POST /persons': rejected }),
+		);
+		await assert.rejects((Leadspicker as any).handleLeadOperations(context, 0));
+		assert.deepEqual(hints, []);
+	});
+
+	it('saves the lead unchecked when the columns cannot be looked up', async () => {
+		const notFound = new NodeApiError(
+			{ name: 'Leadspicker Test Node' } as any,
+			{ message: 'Not found' },
+			{ httpCode: '404', message: 'Not found' },
+		);
+		const { context, requests, hints } = createContext(
+			{ ...LEAD_PARAMS, operation: 'update', personId: '55', unknownCustomFields: 'error' },
+			byRequest({ 'GET /persons/55': notFound, 'PATCH /persons/55': { id: 55 } }),
+		);
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		assert.deepEqual(requests.map(requestKey), ['GET /persons/55', 'PATCH /persons/55']);
+		assert.deepEqual(hints, []);
+	});
+
+	it('looks the columns up again for later items after a failed lookup', async () => {
+		const failure = new NodeApiError(
+			{ name: 'Leadspicker Test Node' } as any,
+			{ message: 'Not found' },
+			{ httpCode: '404', message: 'Not found' },
+		);
+		const { context, requests, hints } = createContext(LEAD_PARAMS, [
+			failure,
+			{ id: 1 },
+			responses['GET /projects/12'],
+			{ id: 2 },
+		]);
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		await (Leadspicker as any).handleLeadOperations(context, 1);
+		assert.deepEqual(requests.map(requestKey), [
+			'GET /projects/12',
+			'POST /persons',
+			'GET /projects/12',
+			'POST /persons',
+		]);
+		assert.equal(hints.length, 1);
+	});
+
+	it('skips the check for campaigns that declare no columns', async () => {
+		const { context, requests, hints } = createContext(
+			{ ...LEAD_PARAMS, unknownCustomFields: 'error' },
+			byRequest({ 'GET /projects/12': { id: 12 }, 'POST /persons': { id: 1 } }),
+		);
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		assert.deepEqual(requests.map(requestKey), ['GET /projects/12', 'POST /persons']);
+		assert.deepEqual(hints, []);
+	});
+
+	it('offers the campaign columns next to a manually entered key', async () => {
+		const { context } = createContext(LEAD_PARAMS, byRequest(responses));
+		const options = await new Leadspicker().methods.loadOptions.getCustomFields.call(context);
+		assert.deepEqual(
+			options.map((option) => option.value),
+			[MANUAL_ID_OPTION, 'Industry', 'Score'],
+		);
+	});
+
+	it('sends the key picked from the list, or the manual key of older nodes', async () => {
+		const { context, requests, hints } = createContext(
+			{
+				...LEAD_PARAMS,
+				customFields: {
+					field: [
+						{ keyName: 'Industry', key: '', value: 'Retail' },
+						{ keyName: MANUAL_ID_OPTION, key: 'Score', value: '7' },
+					],
+				},
+			},
+			byRequest(responses),
+		);
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		assert.deepEqual(requests[1].body.custom_fields, {
+			Industry: 'Retail',
+			Score: '7',
+		});
+		assert.deepEqual(hints, []);
+	});
+
+	it('skips the check when new columns are allowed', async () => {
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, unknownCustomFields: 'allow' },
+			byRequest(responses),
+		);
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		assert.deepEqual(requests.map(requestKey), ['POST /persons']);
+	});
+});
@@ -0,0 +1,41 @@
+import { strict as assert } from 'node:assert';
+import {
+	EVENT_CATALOG,
+	TIMELINE_EVENT_TYPE_OPTIONS,
+	WEBHOOK_FEATURE_OPTIONS,
+	getSamplePayload,
+} from '../nodes/Leadspicker/EventCatalog';
+import { normalizeWebhookPayload } from '../nodes/Leadspicker/WebhookPayloads';
+
+describe('EventCatalog', () => {
+	it('lists every event once', () => {
+		const values = EVENT_CATALOG.map((entry) => entry.value);
+		assert.equal(new Set(values).size, values.length);
+	});
+
+	it('offers all deliverable events to the webhook trigger', () => {
+		const values = WEBHOOK_FEATURE_OPTIONS.map((option) => option.value);
+		assert.ok(values.includes('sequence_step_error'));
+		assert.ok(values.includes('person_added'));
+		assert.ok(!values.includes('unknown'));
+		assert.ok(!TIMELINE_EVENT_TYPE_OPTIONS.some((option) => option.value === 'person_added'));
+	});
+
+	it('provides a sample payload that normalizes to a complete item for every event', () => {
+		for (const entry of EVENT_CATALOG.filter((event) => event.webhook)) {
+			const [item] = normalizeWebhookPayload(entry.value, getSamplePayload(entry.value));
+			assert.equal(item.event, entry.value);
+			assert.equal(item.campaignId, 1042, entry.value);
+			if (entry.kind !== 'campaign' && entry.kind !== 'account') {
+				assert.equal(item.lead?.email, 'jane.doe@acme.com', entry.value);
+			}
+			if (entry.kind === 'message' || entry.kind === 'reply') {
+				assert.equal(typeof item.message?.text, 'string', entry.value);
+			}
+		}
+	});
+
+	it('returns an empty sample for events outside the catalog', () => {
+		assert.deepEqual(getSamplePayload('something_new'), {});
+	});
+});
@@ -0,0 +1,84 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestOptions,
+	ILoadOptionsFunctions,
+	NodeExecutionHint,
+} from 'n8n-workflow';
+
+export interface RecordedRequest {
+	method?: string;
+	/** Path and query string after `/api`, e.g. `/persons/7`. */
+	url: string;
+	body: IDataObject;
+}
+
+export interface TestContextOptions {
+	/** JSON of the input items, `{}` for each item of `itemParams` (or one) by default. */
+	items?: IDataObject[];
+	/** Parameters of single items, on top of the node parameters. */
+	itemParams?: IDataObject[];
+}
+
+export interface TestContext {
+	context: IExecuteFunctions & ILoadOptionsFunctions;
+	requests: RecordedRequest[];
+	hints: NodeExecutionHint[];
+}
+
+/**
+ * Fake node context for the action node. Parameters without a value return the
+ * fallback passed to `getNodeParameter`. Each API request is recorded and
+ * answered with the response at its position, or with what `responses`
+ * returns for it when it is a function; an `Error` response is thrown.
+ */
+export function createContext(
+	params: IDataObject,
+	responses: unknown[] | ((request: RecordedRequest) => unknown) = [],
+	options: TestContextOptions = {},
+): TestContext {
+	const requests: RecordedRequest[] = [];
+	const hints: NodeExecutionHint[] = [];
+	const context = {
+		getNode() {
+			return { name: 'Leadspicker Test Node' } as any;
+		},
+		getInputData() {
+			const items = options.items ?? options.itemParams?.map(() => ({})) ?? [{}];
+			return items.map((json) => ({ json }));
+		},
+		getNodeParameter(name: string, i: number, fallback?: unknown) {
+			const values: IDataObject = { ...params, ...options.itemParams?.[i] };
+			return name in values ? values[name] : fallback;
+		},
+		getCurrentNodeParameters() {
+			return params;
+		},
+		addExecutionHints(...newHints: NodeExecutionHint[]) {
+			hints.push(...newHints);
+		},
+		continueOnFail() {
+			return false;
+		},
+		async getCredentials() {
+			return { token: 'test-token', domain: 'http://localhost:8000' };
+		},
+		helpers: {
+			async httpRequestWithAuthentication(_credential: string, request: IHttpRequestOptions) {
+				const recorded: RecordedRequest = {
+					method: request.method,
+					url: request.url.split('/api')[1],
+					body: request.body as IDataObject,
+				};
+				requests.push(recorded);
+				const response =
+					typeof responses === 'function' ? responses(recorded) : responses[requests.length - 1];
+				if (response instanceof Error) {
+					throw response;
+				}
+				return { headers: {}, body: response ?? {} };
+			},
+		},
+	} as unknown as IExecuteFunctions & ILoadOptionsFunctions;
+	return { context, requests, hints };
+}
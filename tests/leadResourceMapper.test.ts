@@ -0,0 +1,101 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, ILoadOptionsFunctions, ResourceMapperField } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+const SCHEMA = [
+	'email',
+	'first_name',
+	'full_name',
+	'last_name',
+	'position',
+	'linkedin',
+	'custom_field:Industry',
+].map((id) => ({ id }) as ResourceMapperField);
+
+const LEAD_PARAMS: IDataObject = {
+	operation: 'create',
+	projectId: '12',
+	leadInputMode: 'mapper',
+	unknownCustomFields: 'allow',
+	customFields: {},
+};
+
+// Answers every request, the campaign lookup and the created lead alike.
+const respond = () => ({ id: 7, custom_columns: ['Industry'] });
+
+describe('Lead Fields resource mapper', () => {
+	it('sends the mapped lead and custom fields together with the Custom Fields parameter', async () => {
+		const { context, requests } = createContext(
+			{
+				...LEAD_PARAMS,
+				leadFields: {
+					mappingMode: 'defineBelow',
+					value: {
+						email: 'jane@acme.com',
+						first_name: 'Jane',
+						position: '',
+						'custom_field:Industry': 'Retail',
+					},
+					schema: SCHEMA,
+				},
+				customFields: { field: [{ key: 'Source', value: 'CRM' }] },
+			},
+			respond,
+		);
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		assert.deepEqual(requests[0], {
+			method: 'POST',
+			url: '/persons',
+			body: {
+				data_source: 'user_provided',
+				email: 'jane@acme.com',
+				first_name: 'Jane',
+				custom_fields: { Industry: 'Retail', Source: 'CRM' },
+				project_id: 12,
+			},
+		});
+	});
+
+	it('maps input fields automatically by name and splits the full name', async () => {
+		const { context, requests } = createContext(
+			{
+				...LEAD_PARAMS,
+				leadNameFormat: 'fullName',
+				leadFields: { mappingMode: 'autoMapInputData', value: null, schema: SCHEMA },
+			},
+			respond,
+			{
+				items: [
+					{
+						'Full Name': 'Jane van Doe',
+						'E-mail': 'jane@acme.com',
+						'Job Title': 'CTO',
+						Industry: 'Retail',
+						dealStage: 'Won',
+					},
+				],
+			},
+		);
+		await (Leadspicker as any).handleLeadOperations(context, 0);
+		assert.deepEqual(requests[0].body, {
+			data_source: 'user_provided',
+			first_name: 'Jane',
+			last_name: 'van Doe',
+			email: 'jane@acme.com',
+			position: 'CTO',
+			custom_fields: { Industry: 'Retail' },
+			project_id: 12,
+		});
+	});
+
+	it('offers a single Full Name field with the full name format', async () => {
+		const separate = createContext(LEAD_PARAMS, respond);
+		const fullName = createContext({ ...LEAD_PARAMS, leadNameFormat: 'fullName' }, respond);
+		const getFields = new Leadspicker().methods.resourceMapping.getLeadFields;
+		const ids = async (context: ILoadOptionsFunctions) =>
+			(await getFields.call(context)).fields.map((field) => field.id).slice(0, 4);
+		assert.deepEqual(await ids(separate.context), ['country', 'email', 'first_name', 'last_name']);
+		assert.deepEqual(await ids(fullName.context), ['country', 'email', 'full_name', 'position']);
+	});
+});
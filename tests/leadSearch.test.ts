@@ -0,0 +1,123 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+import type { RecordedRequest } from './helpers';
+
+const SEARCH_PARAMS: IDataObject = { operation: 'search' };
+
+/** Request key in the responses: the path, plus the campaign of lead listings. */
+function requestKey({ url }: RecordedRequest) {
+	const { pathname, searchParams } = new URL(url, 'http://localhost');
+	const projectId = searchParams.get('project_id');
+	return projectId ? `${pathname}?${projectId}` : pathname;
+}
+
+function run(context: IExecuteFunctions) {
+	return (Leadspicker as any).handleLeadOperations(context, 0);
+}
+
+describe('Lead search', () => {
+	const responses: Record<string, unknown> = {
+		'/projects': [
+			{ id: 1, name: 'Outbound' },
+			{ id: 2, name: 'Nurture' },
+		],
+		'/persons-simple?1': [
+			{ id: 10, person_data: { full_name: 'Jane Doe', email: 'Jane@Acme.com' } },
+			{ id: 11, person_data: { full_name: 'John Roe', email: 'john@acme.com' } },
+		],
+		'/persons-simple?2': [
+			{
+				id: 20,
+				person_data: { first_name: 'Jane', last_name: 'Doe', company_name: 'Acme Corp' },
+				custom_fields: { segment: 'SaaS' },
+			},
+		],
+	};
+	const respond = (request: RecordedRequest) => responses[requestKey(request)];
+
+	it('searches every campaign and adds the campaign to each match', async () => {
+		const { context } = createContext(
+			{ ...SEARCH_PARAMS, searchAllCampaigns: true, searchCriteria: { name: 'jane doe' } },
+			respond,
+		);
+		const result = await run(context);
+		assert.deepEqual(
+			result.map((lead: IDataObject) => [lead.id, lead.campaign_id, lead.campaign_name]),
+			[
+				[10, 1, 'Outbound'],
+				[20, 2, 'Nurture'],
+			],
+		);
+	});
+
+	it('requires every criterion to match', async () => {
+		const { context } = createContext(
+			{
+				...SEARCH_PARAMS,
+				searchAllCampaigns: true,
+				searchCriteria: {
+					companyName: 'acme',
+					customFields: { field: [{ key: 'segment', value: 'saas' }] },
+				},
+			},
+			respond,
+		);
+		assert.deepEqual(
+			(await run(context)).map((lead: IDataObject) => lead.id),
+			[20],
+		);
+	});
+
+	it('searches a single campaign and stops at the limit', async () => {
+		const { context, requests } = createContext(
+			{
+				...SEARCH_PARAMS,
+				searchAllCampaigns: false,
+				projectId: '1',
+				returnAll: false,
+				limit: 1,
+				searchCriteria: { email: 'jane@acme.com ' },
+			},
+			respond,
+		);
+		assert.deepEqual(
+			(await run(context)).map((lead: IDataObject) => lead.id),
+			[10],
+		);
+		assert.deepEqual(requests.map(requestKey), ['/projects', '/persons-simple?1']);
+	});
+
+	it('lists campaigns by offset and reuses the listings for later items', async () => {
+		const { context, requests } = createContext(
+			{ ...SEARCH_PARAMS, searchAllCampaigns: true, searchCriteria: { name: 'jane doe' } },
+			respond,
+		);
+		await run(context);
+		await run(context);
+		assert.deepEqual(requests.map(requestKey), [
+			'/projects',
+			'/persons-simple?1',
+			'/persons-simple?2',
+		]);
+		assert.match(requests[0].url, /[?&]offset=0(&|$)/);
+	});
+
+	it('searches only the selected campaign by default', async () => {
+		const { context, requests } = createContext(
+			{ ...SEARCH_PARAMS, projectId: '2', searchCriteria: { companyName: 'acme' } },
+			respond,
+		);
+		assert.deepEqual(
+			(await run(context)).map((lead: IDataObject) => lead.id),
+			[20],
+		);
+		assert.deepEqual(requests.map(requestKey), ['/projects', '/persons-simple?2']);
+	});
+
+	it('requires at least one criterion', async () => {
+		const { context } = createContext({ ...SEARCH_PARAMS, searchCriteria: {} }, respond);
+		await assert.rejects(run(context), /at least one search criterion/);
+	});
+});
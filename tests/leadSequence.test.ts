@@ -0,0 +1,58 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+const LEAD_PARAMS: IDataObject = { personId: '__manual__', personIdManual: 58213 };
+
+function run(context: IExecuteFunctions) {
+	return (Leadspicker as any).handleLeadOperations(context, 0);
+}
+
+describe('Lead sequence control', () => {
+	it('returns the sequence status with the next scheduled step', async () => {
+		const nextStep = { step: 3, type: 'email', scheduled_at: '2024-05-16T08:00:00Z' };
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, operation: 'getSequenceStatus' },
+			[{ sequence_status: 'running', current_step: 2, next_step: nextStep }],
+		);
+		assert.deepEqual(await run(context), {
+			lead_id: 58213,
+			sequence_status: 'running',
+			current_step: 2,
+			status: 'running',
+			next_step: nextStep,
+			next_step_at: '2024-05-16T08:00:00Z',
+		});
+		assert.equal(requests[0].method, 'GET');
+		assert.equal(requests[0].url, '/persons/58213/sequence');
+	});
+
+	it('pauses, resumes and stops the sequence', async () => {
+		for (const [operation, path, status] of [
+			['pauseSequence', 'pause', 'paused'],
+			['resumeSequence', 'resume', 'running'],
+			['stopSequence', 'stop', 'stopped'],
+		]) {
+			const { context, requests } = createContext({ ...LEAD_PARAMS, operation });
+			const result = await run(context);
+			assert.equal(requests[0].method, 'POST');
+			assert.equal(requests[0].url, `/persons/58213/sequence/${path}`);
+			assert.deepEqual(result, { lead_id: 58213, status, next_step: null, next_step_at: null });
+		}
+	});
+
+	it('marks a lead as replied with the chosen sentiment', async () => {
+		const { context, requests } = createContext({
+			...LEAD_PARAMS,
+			operation: 'markReplied',
+			replySentiment: 'positive',
+		});
+		assert.deepEqual(await run(context), { lead_id: 58213, replied: true, sentiment: 'positive' });
+		assert.deepEqual(requests[0], {
+			method: 'POST',
+			url: '/persons/58213/mark-replied',
+			body: { sentiment: 'positive' },
+		});
+	});
+});
@@ -0,0 +1,95 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+const LEAD_PARAMS: IDataObject = {
+	operation: 'upsert',
+	projectId: '12',
+	upsertMatchBy: ['email', 'linkedin', 'salesnav'],
+	leadCountry: '',
+	leadFullName: '',
+	leadEmail: '',
+	leadFirstName: 'Jane',
+	leadLastName: '',
+	leadPosition: 'CEO',
+	leadCompanyName: '',
+	leadCompanyWebsite: '',
+	leadCompanyLinkedin: '',
+	leadLinkedin: '',
+	leadSalesNavigator: '',
+	customFields: { field: [] },
+};
+
+function run(context: IExecuteFunctions) {
+	return (Leadspicker as any).handleLeadOperations(context, 0);
+}
+
+describe('Lead upsert', () => {
+	const campaignLeads = [
+		{ id: 1, person_data: { email: 'john@acme.com', linkedin: null } },
+		{
+			id: 2,
+			person_data: { email: null, linkedin: 'https://www.linkedin.com/in/Jane-Doe/' },
+		},
+	];
+
+	it('normalizes emails and LinkedIn URLs before comparing them', () => {
+		const normalize = (key: string, value: string) =>
+			(Leadspicker as any).normalizeLeadIdentifier(key, value);
+		assert.equal(normalize('email', ' Jane@Acme.com '), 'jane@acme.com');
+		assert.equal(
+			normalize('linkedin', 'http://cz.linkedin.com/in/jane-doe?trk=public'),
+			normalize('linkedin', 'https://www.linkedin.com/in/Jane-Doe/'),
+		);
+		assert.equal(
+			normalize('salesnav', 'https://www.linkedin.com/sales/lead/ACwAAB1x,NAME_SEARCH,Xy2'),
+			'linkedin.com/sales/lead/ACwAAB1x',
+		);
+		assert.equal(normalize('email', '  '), undefined);
+	});
+
+	it('updates the lead that matches the LinkedIn URL', async () => {
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, leadLinkedin: 'linkedin.com/in/jane-doe' },
+			[campaignLeads, { id: 2, person_data: { first_name: 'Jane' } }],
+		);
+		const result = await run(context);
+		assert.deepEqual(
+			requests.map((request) => `${request.method} ${request.url.split('?')[0]}`),
+			['GET /persons-simple', 'PATCH /persons/2'],
+		);
+		assert.equal(requests[1].body?.first_name, 'Jane');
+		assert.deepEqual(result, { action: 'updated', id: 2, first_name: 'Jane' });
+	});
+
+	it('creates the lead in the campaign when nothing matches', async () => {
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, leadEmail: 'new@acme.com', upsertMatchBy: ['email'] },
+			[campaignLeads, { id: 3, project_id: 12 }],
+		);
+		const result = await run(context);
+		assert.equal(requests[1].method, 'POST');
+		assert.equal(requests[1].body?.project_id, 12);
+		assert.equal(result.action, 'created');
+		assert.equal(result.id, 3);
+	});
+
+	it('lists the campaign once per execution and matches leads created by earlier items', async () => {
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, leadEmail: 'New@acme.com', upsertMatchBy: ['email'] },
+			[campaignLeads, { id: 3, project_id: 12 }, { id: 3, first_name: 'Jane' }],
+		);
+		assert.equal((await run(context)).action, 'created');
+		assert.equal((await run(context)).action, 'updated');
+		assert.deepEqual(
+			requests.map((request) => `${request.method} ${request.url.split('?')[0]}`),
+			['GET /persons-simple', 'POST /persons', 'PATCH /persons/3'],
+		);
+	});
+
+	it('requires a value for one of the match fields', async () => {
+		const { context } = createContext({ ...LEAD_PARAMS, leadEmail: '', upsertMatchBy: ['email'] });
+		await assert.rejects(run(context), /at least one of the "Match By" fields/);
+	});
+});
@@ -0,0 +1,66 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+const LEAD_PARAMS: IDataObject = { personId: '55', targetProjectId: '20' };
+
+function run(context: IExecuteFunctions) {
+	return (Leadspicker as any).handleLeadOperations(context, 0);
+}
+
+describe('Move and Copy Lead', () => {
+	const sourceLead = {
+		id: 55,
+		project_id: 10,
+		data_source: 'robot',
+		person_data: {
+			first_name: 'Jane',
+			email: 'jane@acme.com',
+			linkedin: 'https://linkedin.com/in/jane',
+			position: '',
+		},
+		contact_data: { email: 'old@acme.com', phone: '+420123' },
+		custom_fields: { segment: { value: 'SaaS' }, score: 7 },
+	};
+
+	it('copies all lead data and custom fields into the target campaign', async () => {
+		const { context, requests } = createContext({ ...LEAD_PARAMS, operation: 'copy' }, [
+			sourceLead,
+			{ id: 99, project_id: 20, person_data: { first_name: 'Jane' } },
+		]);
+		const result = await run(context);
+		assert.deepEqual(
+			requests.map((request) => `${request.method} ${request.url}`),
+			['GET /persons/55', 'POST /persons'],
+		);
+		assert.deepEqual(requests[1].body, {
+			data_source: 'robot',
+			email: 'jane@acme.com',
+			phone: '+420123',
+			first_name: 'Jane',
+			linkedin: 'https://linkedin.com/in/jane',
+			custom_fields: { segment: 'SaaS', score: 7 },
+			project_id: 20,
+		});
+		assert.equal(result.new_lead_id, 99);
+		assert.equal(result.source_deleted, false);
+	});
+
+	it('moves the lead and excludes it from the source campaign', async () => {
+		const { context, requests } = createContext(
+			{ ...LEAD_PARAMS, operation: 'move', excludeFromSource: true },
+			[sourceLead, { id: 99 }],
+		);
+		const result = await run(context);
+		assert.deepEqual(
+			requests.map((request) => `${request.method} ${request.url.split('?')[0]}`),
+			['GET /persons/55', 'POST /persons', 'PUT /projects/10/blacklist-text', 'DELETE /persons/55'],
+		);
+		assert.deepEqual(requests[2].body, { data: 'https://linkedin.com/in/jane\njane@acme.com' });
+		assert.deepEqual(
+			[result.new_lead_id, result.source_campaign_id, result.excluded_from_source],
+			[99, 10, true],
+		);
+	});
+});
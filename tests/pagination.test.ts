@@ -0,0 +1,271 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import {
+	buildQueryString,
+	extractListItems,
+	getCampaignEvents,
+	leadspickerApiRequestAllItems,
+	sortEvents,
+} from '../nodes/Leadspicker/GenericFunctions';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+function range(from: number, to: number) {
+	return Array.from({ length: to - from }, (_, index) => ({ id: from + index }));
+}
+
+describe('Pagination', () => {
+	describe('buildQueryString', () => {
+		it('repeats array values and skips missing ones', () => {
+			assert.equal(
+				buildQueryString({ event_types: ['a', 'b'], search: 'x y', person_id: undefined }),
+				'event_types=a&event_types=b&search=x%20y',
+			);
+			assert.equal(buildQueryString({ outreach_step_types: [''] }), 'outreach_step_types=');
+		});
+	});
+
+	describe('extractListItems', () => {
+		it('detects plain arrays and items/results/data envelopes', () => {
+			assert.deepEqual(extractListItems([{ id: 1 }, 'x']), [{ id: 1 }]);
+			assert.deepEqual(extractListItems({ items: [{ id: 2 }] }), [{ id: 2 }]);
+			assert.deepEqual(extractListItems({ results: [{ id: 3 }] }), [{ id: 3 }]);
+			assert.deepEqual(extractListItems({ data: [{ id: 4 }] }), [{ id: 4 }]);
+			assert.deepEqual(extractListItems({ persons: [{ id: 5 }] }, 'persons'), [{ id: 5 }]);
+		});
+	});
+
+	describe('leadspickerApiRequestAllItems', () => {
+		it('walks page/page_size pages until the reported count is reached', async () => {
+			const { context, requests } = createContext({}, [
+				{ count: 5, items: range(0, 2) },
+				{ count: 5, items: range(2, 4) },
+				{ count: 5, items: range(4, 5) },
+			]);
+			const result = await leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/persons-simple',
+				{},
+				{ project_id: 7 },
+				{ strategy: 'page', pageSize: 2 },
+			);
+			assert.equal(result.length, 5);
+			assert.deepEqual(
+				requests.map((request) => request.url),
+				[
+					'/persons-simple?project_id=7&page=1&page_size=2',
+					'/persons-simple?project_id=7&page=2&page_size=2',
+					'/persons-simple?project_id=7&page=3&page_size=2',
+				],
+			);
+		});
+
+		it('stops on a null next link', async () => {
+			const { context, requests } = createContext({}, [
+				{ next: '/events?page=2', results: range(0, 2) },
+				{ next: null, results: range(2, 4) },
+			]);
+			const result = await leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/projects/1/events',
+				{},
+				{},
+				{ strategy: 'page', pageSize: 2 },
+			);
+			assert.equal(result.length, 4);
+			assert.equal(requests.length, 2);
+		});
+
+		it('advances limit/offset by the items received and stops on a short page', async () => {
+			const { context, requests } = createContext({}, [range(0, 3), range(3, 4)]);
+			const result = await leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/inbound-messages',
+				{},
+				{ sentiment: ['positive', 'interested'] },
+				{ strategy: 'offset', pageSize: 3 },
+			);
+			assert.equal(result.length, 4);
+			assert.deepEqual(
+				requests.map((request) => request.url.split('?')[1]),
+				[
+					'sentiment=positive&sentiment=interested&limit=3&offset=0',
+					'sentiment=positive&sentiment=interested&limit=3&offset=3',
+				],
+			);
+		});
+
+		it('sends the cursor in the body of POST requests and stops on a repeated cursor', async () => {
+			const { context, requests } = createContext({}, [
+				{ results: range(0, 1), next_cursor: 'abc' },
+				{ results: range(1, 2), next_cursor: 'def' },
+				{ results: range(2, 3), next_cursor: 'abc' },
+			]);
+			const result = await leadspickerApiRequestAllItems.call(
+				context,
+				'POST',
+				'/utils/linkedin-profile-posts-reactors-search',
+				{ search_url: 'https://linkedin.com/search' },
+				{},
+				{ strategy: 'cursor', itemsKey: 'results' },
+			);
+			assert.equal(result.length, 3);
+			assert.deepEqual(
+				requests.map((request) => request.body.cursor),
+				[undefined, 'abc', 'def'],
+			);
+			assert.equal(requests[1].body.search_url, 'https://linkedin.com/search');
+		});
+
+		it('stops early once the limit is reached', async () => {
+			const { context, requests } = createContext({}, [
+				{ count: 100, items: range(0, 10) },
+				{ count: 100, items: range(10, 20) },
+			]);
+			const result = await leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/persons-simple',
+				{},
+				{},
+				{ strategy: 'page', pageSize: 10, limit: 5 },
+			);
+			assert.deepEqual(result, range(0, 5));
+			assert.equal(requests.length, 1);
+		});
+
+		it('drops the matching item and stops when stopWhen returns true', async () => {
+			const { context, requests } = createContext({}, [
+				{ items: range(0, 2) },
+				{ items: range(2, 4) },
+				{ items: range(4, 6) },
+			]);
+			const result = await leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/projects/1/events',
+				{},
+				{},
+				{ strategy: 'page', pageSize: 2, stopWhen: (item) => item.id === 3 },
+			);
+			assert.deepEqual(result, range(0, 3));
+			assert.equal(requests.length, 2);
+		});
+
+		it('honors the page loop guard', async () => {
+			const pages = Array.from({ length: 10 }, (_, index) => ({ items: range(index, index + 1) }));
+			const { context, requests } = createContext({}, pages);
+			await leadspickerApiRequestAllItems.call(
+				context,
+				'GET',
+				'/persons-simple',
+				{},
+				{},
+				{ strategy: 'page', pageSize: 1, maxPages: 3 },
+			);
+			assert.equal(requests.length, 3);
+		});
+	});
+
+	describe('getCampaignEvents', () => {
+		const events = [
+			{ id: 40, created: '2024-03-04T10:00:00Z' },
+			{ id: 30, created: '2024-03-03T10:00:00Z' },
+			{ id: 20, created: '2024-03-02T10:00:00Z' },
+			{ id: 10, created: '2024-03-01T10:00:00Z' },
+		];
+
+		it('stops paging at the since event ID', async () => {
+			const { context, requests } = createContext({}, [events.slice(0, 2), events.slice(2)]);
+			const result = await getCampaignEvents.call(
+				context,
+				5,
+				{},
+				{ sinceEventId: 30, pageSize: 2 },
+			);
+			assert.deepEqual(
+				result.map((event) => event.id),
+				[40],
+			);
+			assert.equal(requests.length, 1);
+		});
+
+		it('sends the since timestamp as start date and excludes events at that moment', async () => {
+			const { context, requests } = createContext({}, [events]);
+			const result = await getCampaignEvents.call(
+				context,
+				5,
+				{ start_date: '2024-01-01' },
+				{ sinceTimestamp: '2024-03-02T10:00:00Z' },
+			);
+			assert.deepEqual(
+				result.map((event) => event.id),
+				[40, 30],
+			);
+			assert.match(requests[0].url, /start_date=2024-03-02T10%3A00%3A00Z/);
+		});
+
+		it('returns the oldest events first and applies the limit after sorting', async () => {
+			const { context } = createContext({}, [events]);
+			const result = await getCampaignEvents.call(
+				context,
+				5,
+				{},
+				{ sinceEventId: 10, sort: 'oldestFirst', limit: 2 },
+			);
+			assert.deepEqual(
+				result.map((event) => event.id),
+				[20, 30],
+			);
+		});
+
+		it('breaks timestamp ties by event ID', () => {
+			const tied = [
+				{ id: 2, created_at: '2024-03-01T10:00:00Z' },
+				{ id: 3, created_at: '2024-03-01T10:00:00Z' },
+				{ id: 1, created_at: '2024-02-01T10:00:00Z' },
+			];
+			assert.deepEqual(
+				sortEvents(tied, 'newestFirst').map((event) => event.id),
+				[3, 2, 1],
+			);
+			assert.deepEqual(
+				sortEvents(tied, 'oldestFirst').map((event) => event.id),
+				[1, 2, 3],
+			);
+		});
+	});
+
+	describe('Leadspicker.getListPagination', () => {
+		function paginationFor(params: IDataObject, strategy: 'page' | 'cursor') {
+			const context = {
+				getNodeParameter(name: string, _i: number, fallback: unknown) {
+					return name in params ? params[name] : fallback;
+				},
+			} as unknown as IExecuteFunctions;
+			return (Leadspicker as any).getListPagination(context, 0, {
+				strategy,
+				pageSize: 1000,
+			});
+		}
+
+		it('keeps fetching everything when Return All is enabled', () => {
+			assert.deepEqual(paginationFor({ returnAll: true, limit: 20 }, 'page'), {
+				strategy: 'page',
+				pageSize: 1000,
+			});
+		});
+
+		it('applies the limit and shrinks the page size to it', () => {
+			assert.deepEqual(paginationFor({ returnAll: false, limit: 20 }, 'page'), {
+				strategy: 'page',
+				pageSize: 20,
+				limit: 20,
+			});
+			assert.equal(paginationFor({ returnAll: false, limit: 20 }, 'cursor').pageSize, 1000);
+		});
+	});
+});
@@ -0,0 +1,169 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, IHttpRequestOptions, IPollFunctions } from 'n8n-workflow';
+import { LeadspickerPollingTrigger } from '../nodes/Leadspicker/LeadspickerPollingTrigger.node';
+
+function createPollContext(
+	params: IDataObject,
+	responses: unknown[],
+	staticData: IDataObject = {},
+	mode = 'trigger',
+) {
+	const urls: string[] = [];
+	const context = {
+		getNode() {
+			return { name: 'Leadspicker Polling Trigger' } as any;
+		},
+		getNodeParameter(name: string, fallback?: unknown) {
+			return name in params ? params[name] : fallback;
+		},
+		getMode() {
+			return mode;
+		},
+		getWorkflowStaticData() {
+			return staticData;
+		},
+		async getCredentials() {
+			return { token: 'test-token', domain: 'http://localhost:8000' };
+		},
+		helpers: {
+			async httpRequestWithAuthentication(_credential: string, options: IHttpRequestOptions) {
+				urls.push(options.url);
+				return { headers: {}, body: responses[urls.length - 1] ?? [] };
+			},
+			returnJsonArray(items: IDataObject[]) {
+				return items.map((json) => ({ json }));
+			},
+		},
+	} as unknown as IPollFunctions;
+	return { context, urls, staticData };
+}
+
+const events = [
+	{ id: 12, event_type: 'email_reply', created: '2024-05-03T08:00:00Z' },
+	{ id: 11, event_type: 'linkedin_connection_accepted', created: '2024-05-02T08:00:00Z' },
+	{ id: 10, event_type: 'sequence_step_error', created: '2024-05-01T08:00:00Z' },
+];
+
+describe('LeadspickerPollingTrigger', () => {
+	const trigger = new LeadspickerPollingTrigger();
+
+	it('stores the newest event on the first poll without emitting history', async () => {
+		const { context, staticData } = createPollContext({ projectId: '7' }, [events.slice(0, 1)]);
+		const result = await trigger.poll.call(context);
+		assert.equal(result, null);
+		assert.deepEqual(staticData, {
+			campaignId: 7,
+			lastEventId: 12,
+			lastTimestamp: '2024-05-03T08:00:00.000Z',
+		});
+	});
+
+	it('emits only events after the stored cursor, oldest first', async () => {
+		const { context, staticData } = createPollContext(
+			{ projectId: '7' },
+			[
+				[
+					{ id: 14, created: '2024-05-05T08:00:00Z' },
+					{ id: 13, created: '2024-05-04T08:00:00Z' },
+					...events,
+				],
+			],
+			{ campaignId: 7, lastEventId: 12 },
+		);
+		const result = await trigger.poll.call(context);
+		assert.deepEqual(
+			result?.[0].map((item) => item.json.id),
+			[13, 14],
+		);
+		assert.equal(staticData.lastEventId, 14);
+	});
+
+	it('returns null when nothing new happened', async () => {
+		const { context } = createPollContext({ projectId: '7' }, [events], {
+			campaignId: 7,
+			lastEventId: 12,
+		});
+		assert.equal(await trigger.poll.call(context), null);
+	});
+
+	it('passes the event and outreach step filters to the campaign log', async () => {
+		const { context, urls } = createPollContext(
+			{
+				projectId: '__manual__',
+				projectIdManual: 9,
+				eventTypes: ['linkedin_connection_accepted', 'sequence_step_error'],
+				outreachStepTypes: ['connect'],
+			},
+			[events.slice(1, 2)],
+			{},
+			'manual',
+		);
+		const result = await trigger.poll.call(context);
+		assert.equal(result?.[0].length, 1);
+		assert.equal(
+			urls[0],
+			'http://localhost:8000/app/sb/api/projects/9/events?event_types=linkedin_connection_accepted&event_types=sequence_step_error&outreach_step_types=connect&page=1&page_size=1',
+		);
+	});
+
+	describe('replies', () => {
+		const replyFilters = {
+			sentiment: { sentiment_value: [{ type: 'positive' }] },
+			projects: { project: [{ id: '3' }, { id: '__manual__', idManual: 4 }] },
+		};
+
+		it('remembers the newest reply on the first poll', async () => {
+			const { context, urls, staticData } = createPollContext({ watch: 'replies', replyFilters }, [
+				[{ id: 50, created: '2024-05-03T08:00:00Z' }],
+			]);
+			assert.equal(await trigger.poll.call(context), null);
+			assert.deepEqual(staticData.replies, {
+				lastId: 50,
+				lastTimestamp: '2024-05-03T08:00:00.000Z',
+				seenIds: [50],
+			});
+			assert.equal(
+				urls[0],
+				'http://localhost:8000/app/sb/api/inbound-messages?projects=3&projects=4&sentiment=positive&limit=1&offset=0',
+			);
+		});
+
+		it('emits unseen replies from the overlap window and stops paging before it', async () => {
+			const { context, urls, staticData } = createPollContext(
+				{ watch: 'replies' },
+				[
+					[
+						{ id: 53, created: '2024-05-03T08:04:00Z' },
+						{ id: 51, created: '2024-05-03T08:02:00Z' },
+						// Delivered late with an earlier timestamp than the last seen reply.
+						{ id: 52, created: '2024-05-03T07:58:00Z' },
+						{ id: 50, created: '2024-05-03T08:00:00Z' },
+						{ id: 49, created: '2024-05-03T07:00:00Z' },
+					],
+				],
+				{
+					replies: { lastId: 51, lastTimestamp: '2024-05-03T08:02:00.000Z', seenIds: [50, 51] },
+				},
+			);
+			const result = await trigger.poll.call(context);
+			assert.deepEqual(
+				result?.[0].map((item) => item.json.id),
+				[52, 53],
+			);
+			assert.equal(urls.length, 1);
+			assert.deepEqual((staticData.replies as IDataObject).seenIds, [50, 51, 53, 52]);
+			assert.equal((staticData.replies as IDataObject).lastTimestamp, '2024-05-03T08:04:00.000Z');
+		});
+
+		it('returns null when every reply in the window was already emitted', async () => {
+			const { context } = createPollContext(
+				{ watch: 'replies' },
+				[[{ id: 51, created: '2024-05-03T08:02:00Z' }]],
+				{
+					replies: { lastId: 51, lastTimestamp: '2024-05-03T08:02:00.000Z', seenIds: [51] },
+				},
+			);
+			assert.equal(await trigger.poll.call(context), null);
+		});
+	});
+});
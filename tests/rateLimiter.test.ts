@@ -0,0 +1,67 @@
+import { strict as assert } from 'node:assert';
+import {
+	consumeDailyQuota,
+	getRateLimitKey,
+	getRateLimitState,
+	isDailyQuotaExhausted,
+	recordRateLimitHeaders,
+	reserveRequestSlot,
+	resetRateLimitStates,
+} from '../nodes/Leadspicker/RateLimiter';
+
+describe('Rate limiter', () => {
+	beforeEach(() => resetRateLimitStates());
+
+	it('shares one budget per credential', () => {
+		const key = getRateLimitKey('https://app.leadspicker.com/app/sb/api', 'token-a');
+		const otherKey = getRateLimitKey('https://app.leadspicker.com/app/sb/api', 'token-b');
+		assert.notEqual(key, otherKey);
+		assert.equal(getRateLimitState(key), getRateLimitState(key));
+		assert.notEqual(getRateLimitState(key), getRateLimitState(otherKey));
+	});
+
+	it('does not pace requests before any rate limit headers are known', () => {
+		const state = getRateLimitState('fresh', 0);
+		assert.equal(reserveRequestSlot(state, 0), 0);
+		assert.equal(reserveRequestSlot(state, 0), 0);
+	});
+
+	it('paces requests once the minute budget is used up and queues concurrent callers', () => {
+		const state = getRateLimitState('paced', 0);
+		recordRateLimitHeaders(
+			state,
+			{ 'x-ratelimit-limit-minute': '60', 'x-ratelimit-remaining-minute': '1' },
+			0,
+		);
+		assert.equal(reserveRequestSlot(state, 0), 0);
+		// 60 requests per minute refill one token per second.
+		assert.equal(reserveRequestSlot(state, 0), 1000);
+		assert.equal(reserveRequestSlot(state, 0), 2000);
+		assert.equal(reserveRequestSlot(state, 5000), 0);
+	});
+
+	it('learns the capacity from the remaining count when no limit header is sent', () => {
+		const state = getRateLimitState('learned', 0);
+		recordRateLimitHeaders(state, { 'x-ratelimit-remaining-minute': '119' }, 0);
+		assert.equal(state.capacity, 120);
+		assert.equal(state.tokens, 119);
+	});
+
+	it('tracks the daily quota against the configured reserve', () => {
+		const state = getRateLimitState('daily', 0);
+		assert.equal(isDailyQuotaExhausted(state, 0, 0), false);
+		recordRateLimitHeaders(state, { 'x-ratelimit-remaining-day': '2' }, 0);
+		assert.equal(isDailyQuotaExhausted(state, 0, 0), false);
+		assert.equal(isDailyQuotaExhausted(state, 2, 0), true);
+		consumeDailyQuota(state);
+		consumeDailyQuota(state);
+		assert.equal(isDailyQuotaExhausted(state, 0, 0), true);
+	});
+
+	it('lets a request through to refresh a stale daily reading', () => {
+		const state = getRateLimitState('stale', 0);
+		recordRateLimitHeaders(state, { 'x-ratelimit-remaining-day': '0' }, 0);
+		assert.equal(isDailyQuotaExhausted(state, 0, 60_000), true);
+		assert.equal(isDailyQuotaExhausted(state, 0, 10 * 60_000), false);
+	});
+});
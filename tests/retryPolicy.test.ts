@@ -0,0 +1,101 @@
+import { strict as assert } from 'node:assert';
+import {
+	DEFAULT_RETRY_POLICY,
+	computeBackoffDelay,
+	getRetryDelay,
+	parseRetryAfter,
+	resolveRetryPolicy,
+} from '../nodes/Leadspicker/GenericFunctions';
+
+const noJitter = () => 1;
+
+function httpError(status: number | string, headers: Record<string, string> = {}) {
+	return {
+		httpCode: typeof status === 'number' ? status.toString() : status,
+		cause: { response: { status: Number(status), headers } },
+	};
+}
+
+describe('Retry policy', () => {
+	describe('parseRetryAfter', () => {
+		it('parses delay-seconds and HTTP dates', () => {
+			assert.equal(parseRetryAfter('7'), 7000);
+			const now = Date.parse('2024-01-01T00:00:00Z');
+			assert.equal(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now), 30_000);
+			assert.equal(parseRetryAfter('Sun, 31 Dec 2023 23:00:00 GMT', now), 0);
+		});
+
+		it('ignores missing or malformed values', () => {
+			assert.equal(parseRetryAfter(undefined), undefined);
+			assert.equal(parseRetryAfter('soon'), undefined);
+		});
+	});
+
+	describe('computeBackoffDelay', () => {
+		it('doubles per attempt, caps at the max delay and applies jitter', () => {
+			assert.equal(computeBackoffDelay(0, DEFAULT_RETRY_POLICY, noJitter), 1000);
+			assert.equal(computeBackoffDelay(3, DEFAULT_RETRY_POLICY, noJitter), 8000);
+			assert.equal(computeBackoffDelay(20, DEFAULT_RETRY_POLICY, noJitter), 60_000);
+			assert.equal(
+				computeBackoffDelay(3, DEFAULT_RETRY_POLICY, () => 0),
+				4000,
+			);
+		});
+	});
+
+	describe('getRetryDelay', () => {
+		it('honors Retry-After on 429 for any method', () => {
+			const error = httpError(429, { 'retry-after': '3' });
+			assert.equal(getRetryDelay(error, 'POST', 0, DEFAULT_RETRY_POLICY), 3000);
+		});
+
+		it('waits for the minute window when the per-minute quota is exhausted', () => {
+			const error = httpError(429, { 'x-ratelimit-remaining-minute': '0' });
+			assert.equal(getRetryDelay(error, 'GET', 0, DEFAULT_RETRY_POLICY, noJitter), 60_000);
+		});
+
+		it('gives up on 429 when the daily quota is exhausted', () => {
+			const error = httpError(429, { 'x-ratelimit-remaining-day': '0' });
+			assert.equal(getRetryDelay(error, 'GET', 0, DEFAULT_RETRY_POLICY), undefined);
+		});
+
+		it('retries 5xx only for idempotent methods by default', () => {
+			assert.equal(getRetryDelay(httpError(503), 'GET', 1, DEFAULT_RETRY_POLICY, noJitter), 2000);
+			assert.equal(getRetryDelay(httpError(502), 'POST', 0, DEFAULT_RETRY_POLICY), undefined);
+			const lenient = { ...DEFAULT_RETRY_POLICY, retryNonIdempotent: true };
+			assert.equal(getRetryDelay(httpError(502), 'POST', 0, lenient, noJitter), 1000);
+		});
+
+		it('does not retry client errors', () => {
+			assert.equal(getRetryDelay(httpError(400), 'GET', 0, DEFAULT_RETRY_POLICY), undefined);
+			assert.equal(getRetryDelay(httpError(404), 'DELETE', 0, DEFAULT_RETRY_POLICY), undefined);
+		});
+
+		it('retries network failures depending on whether the request may have been processed', () => {
+			const reset = { httpCode: 'ECONNRESET', cause: { code: 'ECONNRESET' } };
+			const refused = { cause: { code: 'ECONNREFUSED' } };
+			assert.equal(getRetryDelay(reset, 'GET', 0, DEFAULT_RETRY_POLICY, noJitter), 1000);
+			assert.equal(getRetryDelay(reset, 'POST', 0, DEFAULT_RETRY_POLICY), undefined);
+			assert.equal(getRetryDelay(refused, 'POST', 0, DEFAULT_RETRY_POLICY, noJitter), 1000);
+		});
+
+		it('stops after the configured number of retries', () => {
+			const policy = { ...DEFAULT_RETRY_POLICY, maxRetries: 2 };
+			assert.equal(getRetryDelay(httpError(429), 'GET', 2, policy), undefined);
+		});
+	});
+
+	describe('resolveRetryPolicy', () => {
+		it('falls back to defaults for missing or invalid options', () => {
+			assert.deepEqual(resolveRetryPolicy({}), DEFAULT_RETRY_POLICY);
+			assert.deepEqual(resolveRetryPolicy({ maxRetries: -1, initialRetryDelay: 'x' }), {
+				...DEFAULT_RETRY_POLICY,
+			});
+		});
+
+		it('never lets the max delay drop below the initial delay', () => {
+			const policy = resolveRetryPolicy({ initialRetryDelay: 5000, maxRetryDelay: 100 });
+			assert.equal(policy.maxDelayMs, 5000);
+		});
+	});
+});
@@ -0,0 +1,142 @@
+import { strict as assert } from 'node:assert';
+import {
+	DELIVERY_TTL_MS,
+	MAX_REMEMBERED_DELIVERIES,
+	getDeliveryKey,
+	isTestPayload,
+	matchesWebhookFilters,
+	normalizeWebhookPayload,
+	rememberDelivery,
+} from '../nodes/Leadspicker/WebhookPayloads';
+
+describe('normalizeWebhookPayload', () => {
+	it('flattens the lead and extracts campaign and message fields for replies', () => {
+		const body = {
+			project: { id: '12', name: 'Q3 Outreach' },
+			person: { id: 5, person_data: { email: 'jane@acme.com', first_name: 'Jane' } },
+			message: { id: 99, thread_id: 'thr-1', subject: 'Re: Hello', text: 'Sounds good' },
+			account: { email: 'sales@leadspicker.com' },
+		};
+		assert.deepEqual(normalizeWebhookPayload('email_reply', body), [
+			{
+				event: 'email_reply',
+				campaignId: 12,
+				campaignName: 'Q3 Outreach',
+				lead: { id: 5, email: 'jane@acme.com', first_name: 'Jane' },
+				message: {
+					id: 99,
+					threadId: 'thr-1',
+					subject: 'Re: Hello',
+					text: 'Sounds good',
+					sentAt: null,
+				},
+				account: 'sales@leadspicker.com',
+				stepType: null,
+				sentiment: null,
+			},
+		]);
+	});
+
+	it('reads top-level fields for bounces and revoked accounts', () => {
+		const [bounce] = normalizeWebhookPayload('email_bounced', {
+			project_id: 3,
+			subject: 'Hello',
+			bounce_reason: 'Mailbox full',
+			account_email: 'sales@leadspicker.com',
+		});
+		assert.equal(bounce.campaignId, 3);
+		assert.equal(bounce.bounceReason, 'Mailbox full');
+		assert.equal(bounce.message?.subject, 'Hello');
+		assert.equal(bounce.account, 'sales@leadspicker.com');
+
+		const [revoked] = normalizeWebhookPayload('account_revoked', { account: 'li-123' });
+		assert.deepEqual(revoked, {
+			event: 'account_revoked',
+			campaignId: null,
+			campaignName: null,
+			lead: null,
+			account: 'li-123',
+		});
+	});
+
+	it('emits one item per added lead and keeps the raw body on request', () => {
+		const body = { project_id: 4, persons: [{ id: 1 }, { id: 2, project_id: 8 }] };
+		const items = normalizeWebhookPayload('person_added', body, true);
+		assert.deepEqual(
+			items.map((item) => [item.lead?.id, item.campaignId]),
+			[
+				[1, 4],
+				[2, 8],
+			],
+		);
+		assert.equal(items[0].raw, body);
+	});
+});
+
+describe('matchesWebhookFilters', () => {
+	const [reply] = normalizeWebhookPayload('linkedin_reply', {
+		sentiment: 'Positive',
+		step_type: 'message',
+		account: 'Jane-Doe',
+		person: { id: 1, custom_fields: { tier: 'Gold' } },
+	});
+	const [leadAdded] = normalizeWebhookPayload('person_added', { person: { id: 2 } });
+
+	it('matches sentiment, account, step type and custom fields case-insensitively', () => {
+		assert.equal(
+			matchesWebhookFilters(reply, {
+				sentiments: ['positive'],
+				accounts: ['jane-doe'],
+				stepTypes: ['message'],
+				customFields: [{ name: 'tier', value: 'gold' }],
+			}),
+			true,
+		);
+		assert.equal(matchesWebhookFilters(reply, { sentiments: ['negative'] }), false);
+		assert.equal(matchesWebhookFilters(reply, { stepTypes: ['connect'] }), false);
+		assert.equal(
+			matchesWebhookFilters(reply, { customFields: [{ name: 'tier', value: 'silver' }] }),
+			false,
+		);
+	});
+
+	it('ignores filters for fields an event does not carry', () => {
+		assert.equal(
+			matchesWebhookFilters(leadAdded, { sentiments: ['positive'], accounts: ['sales@acme.com'] }),
+			true,
+		);
+	});
+
+	it('detects test payloads', () => {
+		assert.equal(isTestPayload({ is_test: true }), true);
+		assert.equal(isTestPayload({ test: 'no' }), false);
+	});
+});
+
+describe('delivery deduplication', () => {
+	const NOW = Date.parse('2024-05-01T12:00:00Z');
+
+	it('keys deliveries by event ID, or by a hash of the raw body', () => {
+		assert.equal(getDeliveryKey({ event_id: 42 }, '{}'), 'id:42');
+		const rawBody = '{"message":"Hi"}';
+		assert.equal(getDeliveryKey(JSON.parse(rawBody), rawBody), getDeliveryKey({}, rawBody));
+		assert.notEqual(getDeliveryKey({}, rawBody), getDeliveryKey({}, '{"message":"Hello"}'));
+	});
+
+	it('flags deliveries seen within the TTL and forgets expired ones', () => {
+		const first = rememberDelivery({}, 'id:1', NOW);
+		assert.equal(first.duplicate, false);
+		assert.equal(rememberDelivery(first.seenDeliveries, 'id:1', NOW + 1000).duplicate, true);
+		const later = rememberDelivery(first.seenDeliveries, 'id:1', NOW + DELIVERY_TTL_MS + 1);
+		assert.equal(later.duplicate, false);
+	});
+
+	it('keeps only the most recent deliveries', () => {
+		let seen: Record<string, number> = {};
+		for (let index = 0; index <= MAX_REMEMBERED_DELIVERIES; index++) {
+			seen = rememberDelivery(seen, `id:${index}`, NOW + index).seenDeliveries;
+		}
+		assert.equal(Object.keys(seen).length, MAX_REMEMBERED_DELIVERIES);
+		assert.equal(seen['id:0'], undefined);
+	});
+});
@@ -0,0 +1,122 @@
+import { strict as assert } from 'node:assert';
+import type { IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { Leadspicker } from '../nodes/Leadspicker/Leadspicker.node';
+import { createContext } from './helpers';
+
+function run(context: IExecuteFunctions) {
+	return (Leadspicker as any).handleWebhookOperations(context, 0);
+}
+
+describe('Webhook resource', () => {
+	const webhooks = [
+		{
+			id: 1,
+			name: 'N8N Leadspicker Webhook',
+			url: 'https://n8n.acme.com/a',
+			features: ['email_reply'],
+		},
+		{ id: 2, name: 'CRM sync', url: 'https://crm.acme.com/hook', features: ['person_added'] },
+		{
+			id: 3,
+			name: 'n8n leadspicker webhook',
+			url: 'https://n8n.acme.com/b',
+			features: ['email_sent'],
+		},
+	];
+
+	it('lists webhooks filtered by name, URL and event', async () => {
+		const byName = createContext(
+			{ operation: 'list', webhookFilters: { name: 'N8N Leadspicker' } },
+			[webhooks],
+		);
+		assert.deepEqual(
+			(await run(byName.context)).map((webhook: IDataObject) => webhook.id),
+			[1, 3],
+		);
+
+		const byEvent = createContext(
+			{ operation: 'list', webhookFilters: { url: 'n8n.acme.com', feature: 'email_sent' } },
+			[webhooks],
+		);
+		assert.deepEqual(
+			(await run(byEvent.context)).map((webhook: IDataObject) => webhook.id),
+			[3],
+		);
+
+		const limited = createContext({ operation: 'list', returnAll: false, limit: 1 }, [webhooks]);
+		assert.equal((await run(limited.context)).length, 1);
+	});
+
+	it('creates a webhook scoped to campaigns', async () => {
+		const { context, requests } = createContext({
+			operation: 'create',
+			webhookName: 'Ops',
+			webhookUrl: ' https://ops.acme.com/hook ',
+			webhookFeatures: ['email_reply', 'linkedin_reply'],
+			webhookProjectIds: ['4', '9'],
+			webhookAdditionalFields: { fireTestPayload: true },
+		});
+		await run(context);
+		assert.deepEqual(requests[0], {
+			method: 'POST',
+			url: '/webhooks',
+			body: {
+				name: 'Ops',
+				url: 'https://ops.acme.com/hook',
+				features: ['email_reply', 'linkedin_reply'],
+				project_ids: [4, 9],
+				fire_test_payload: true,
+			},
+		});
+	});
+
+	it('re-creates a webhook when none delivers to the URL any more', async () => {
+		const params = {
+			operation: 'repair',
+			webhookName: 'N8N Leadspicker Webhook',
+			webhookUrl: 'https://n8n.acme.com/c',
+			webhookFeatures: ['email_reply'],
+		};
+		const missing = createContext(params, [webhooks, { id: 4 }]);
+		assert.deepEqual(await run(missing.context), { id: 4, status: 'recreated' });
+		assert.deepEqual(missing.requests[1], {
+			method: 'POST',
+			url: '/webhooks',
+			body: {
+				name: 'N8N Leadspicker Webhook',
+				url: 'https://n8n.acme.com/c',
+				features: ['email_reply'],
+			},
+		});
+		assert.equal(missing.hints[0].type, 'warning');
+
+		const found = createContext({ ...params, webhookUrl: 'https://n8n.acme.com/a' }, [webhooks]);
+		assert.equal((await run(found.context)).status, 'active');
+		assert.equal(found.requests.length, 1);
+		assert.deepEqual(found.hints, []);
+	});
+
+	it('patches only the fields that were set and can clear the campaign scope', async () => {
+		const { context, requests } = createContext({
+			operation: 'update',
+			webhookId: 2,
+			webhookUpdateFields: { webhookName: 'CRM sync v2', webhookProjectIds: [] },
+		});
+		await run(context);
+		assert.deepEqual(requests[0], {
+			method: 'PATCH',
+			url: '/webhooks/2',
+			body: { name: 'CRM sync v2', project_ids: [] },
+		});
+	});
+
+	it('requests a test delivery and deletes webhooks', async () => {
+		const testFire = createContext({ operation: 'testFire', webhookId: 3 });
+		await run(testFire.context);
+		assert.deepEqual(testFire.requests[0].body, { fire_test_payload: true });
+
+		const deletion = createContext({ operation: 'delete', webhookId: 3 });
+		assert.deepEqual(await run(deletion.context), [{ id: 3, deleted: true }]);
+		assert.equal(deletion.requests[0].method, 'DELETE');
+	});
+});
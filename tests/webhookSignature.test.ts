@@ -0,0 +1,55 @@
+import { strict as assert } from 'node:assert';
+import {
+	computeWebhookSignature,
+	rememberSignature,
+	verifyWebhookSignature,
+} from '../nodes/Leadspicker/WebhookSignature';
+
+const SECRET = 'test-secret';
+const NOW = Date.parse('2024-05-01T12:00:00Z');
+const BODY = '{"feature":"email_reply"}';
+
+function signedHeaders(timestamp: string, body = BODY, secret = SECRET) {
+	return {
+		'x-leadspicker-signature': computeWebhookSignature(secret, timestamp, body),
+		'x-leadspicker-timestamp': timestamp,
+	};
+}
+
+describe('Webhook signature', () => {
+	const timestamp = (NOW / 1000).toString();
+
+	it('accepts a delivery signed with the webhook secret', () => {
+		const check = verifyWebhookSignature(SECRET, signedHeaders(timestamp), BODY, {}, NOW);
+		assert.equal(check.valid, true);
+	});
+
+	it('rejects missing headers, tampered bodies and foreign secrets', () => {
+		assert.equal(verifyWebhookSignature(SECRET, {}, BODY, {}, NOW).valid, false);
+		assert.equal(
+			verifyWebhookSignature(SECRET, signedHeaders(timestamp), '{"feature":"x"}', {}, NOW).valid,
+			false,
+		);
+		assert.equal(
+			verifyWebhookSignature(SECRET, signedHeaders(timestamp, BODY, 'other'), BODY, {}, NOW).valid,
+			false,
+		);
+	});
+
+	it('rejects timestamps outside the tolerance window', () => {
+		const stale = ((NOW - 6 * 60_000) / 1000).toString();
+		const check = verifyWebhookSignature(SECRET, signedHeaders(stale), BODY, {}, NOW);
+		assert.deepEqual(check, {
+			valid: false,
+			reason: 'Signature timestamp is outside the allowed window',
+		});
+	});
+
+	it('rejects replays and forgets signatures once they expire', () => {
+		const headers = signedHeaders(timestamp);
+		const signature = headers['x-leadspicker-signature'];
+		const seen = rememberSignature({ old: NOW - 60 * 60_000 }, signature, NOW);
+		assert.deepEqual(Object.keys(seen), [signature]);
+		assert.equal(verifyWebhookSignature(SECRET, headers, BODY, seen, NOW).valid, false);
+	});
+});
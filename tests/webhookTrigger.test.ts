@@ -0,0 +1,352 @@
+import { strict as assert } from 'node:assert';
+import type {
+	IDataObject,
+	IHookFunctions,
+	IHttpRequestOptions,
+	IWebhookFunctions,
+} from 'n8n-workflow';
+import { LeadspickerTrigger } from '../nodes/Leadspicker/LeadspickerTrigger.node';
+import { computeWebhookSignature } from '../nodes/Leadspicker/WebhookSignature';
+
+const WEBHOOK_URL = 'https://n8n.example.com/webhook/abc/leadspicker';
+
+interface RecordedRequest {
+	method?: string;
+	url: string;
+	body?: IDataObject;
+}
+
+function createHookContext(
+	params: IDataObject,
+	responses: unknown[] = [],
+	staticData: IDataObject = {},
+	typeVersion = 2,
+) {
+	const requests: RecordedRequest[] = [];
+	const context = {
+		getNode() {
+			return { name: 'Leadspicker Trigger', typeVersion } as any;
+		},
+		getNodeParameter(name: string, fallback?: unknown) {
+			return name in params ? params[name] : fallback;
+		},
+		getNodeWebhookUrl() {
+			return WEBHOOK_URL;
+		},
+		getMode() {
+			return 'trigger';
+		},
+		getActivationMode() {
+			return 'activate';
+		},
+		getWorkflowStaticData() {
+			return staticData;
+		},
+		async getCredentials() {
+			return { token: 'test-token', domain: 'http://localhost:8000' };
+		},
+		helpers: {
+			async httpRequestWithAuthentication(_credential: string, options: IHttpRequestOptions) {
+				requests.push({
+					method: options.method,
+					url: options.url,
+					body: options.body as IDataObject,
+				});
+				return { headers: {}, body: responses[requests.length - 1] ?? {} };
+			},
+		},
+	} as unknown as IHookFunctions;
+	return { context, requests, staticData };
+}
+
+const SECRET = 'test-secret';
+
+function createWebhookContext(
+	params: IDataObject,
+	body: IDataObject,
+	options: {
+		secret?: string;
+		timestamp?: string;
+		signature?: string;
+		staticData?: IDataObject;
+		typeVersion?: number;
+	} = {},
+) {
+	const rawBody = JSON.stringify(body);
+	const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000).toString();
+	const signature =
+		options.signature ?? computeWebhookSignature(options.secret ?? SECRET, timestamp, rawBody);
+	const staticData: IDataObject = options.staticData ?? { webhookId: 7, webhookSecret: SECRET };
+	const response = { statusCode: 200, body: undefined as unknown };
+	const context = {
+		getNode() {
+			return { name: 'Leadspicker Trigger', typeVersion: options.typeVersion ?? 2 } as any;
+		},
+		getNodeParameter(name: string, fallback?: unknown) {
+			return name in params ? params[name] : fallback;
+		},
+		getWorkflowStaticData() {
+			return staticData;
+		},
+		getMode() {
+			return 'webhook';
+		},
+		getHeaderData() {
+			return {
+				'x-leadspicker-signature': `sha256=${signature}`,
+				'x-leadspicker-timestamp': timestamp,
+			};
+		},
+		getRequestObject() {
+			return { body, rawBody: Buffer.from(rawBody) };
+		},
+		getResponseObject() {
+			return {
+				status(code: number) {
+					response.statusCode = code;
+					return this;
+				},
+				json(data: unknown) {
+					response.body = data;
+					return this;
+				},
+			};
+		},
+		helpers: {
+			returnJsonArray(items: IDataObject[]) {
+				return items.map((json) => ({ json }));
+			},
+		},
+	} as unknown as IWebhookFunctions;
+	return { context, response, staticData };
+}
+
+describe('LeadspickerTrigger', () => {
+	const trigger = new LeadspickerTrigger();
+
+	describe('checkExists', () => {
+		const params = { features: ['linkedin_reply', 'email_reply'], projectIds: ['12', '3'] };
+
+		it('keeps the up-to-date webhook and deletes orphans pointing at the same URL', async () => {
+			const { context, requests, staticData } = createHookContext(
+				params,
+				[
+					[
+						{ id: 1, url: WEBHOOK_URL, features: ['email_reply'], project_ids: [3, 12] },
+						{
+							id: 2,
+							name: 'N8N Leadspicker Webhook',
+							url: WEBHOOK_URL,
+							features: ['email_reply', 'linkedin_reply'],
+							project_ids: [12, 3],
+						},
+						{ id: 3, url: 'https://other.example.com/hook', features: ['email_reply'] },
+					],
+				],
+				{ webhookId: 2, webhookSecret: 'known-secret' },
+			);
+			assert.equal(await trigger.webhookMethods.default.checkExists.call(context), true);
+			assert.deepEqual(
+				requests.map((request) => `${request.method} ${request.url.split('/api')[1]}`),
+				['GET /webhooks', 'DELETE /webhooks/1'],
+			);
+			assert.equal(staticData.webhookId, 2);
+		});
+
+		it('updates a webhook with outdated events or projects in place', async () => {
+			const { context, requests } = createHookContext(
+				params,
+				[
+					[
+						{
+							id: 2,
+							name: 'N8N Leadspicker Webhook',
+							url: WEBHOOK_URL,
+							features: ['email_reply'],
+							project_ids: [3],
+						},
+					],
+				],
+				{ webhookId: 2, webhookSecret: 'known-secret' },
+			);
+			assert.equal(await trigger.webhookMethods.default.checkExists.call(context), true);
+			assert.equal(requests[1].method, 'PATCH');
+			assert.deepEqual(requests[1].body, {
+				name: 'N8N Leadspicker Webhook',
+				features: ['email_reply', 'linkedin_reply'],
+				project_ids: [3, 12],
+			});
+		});
+
+		it('rotates the secret of a webhook whose signing secret is unknown', async () => {
+			const { context, requests, staticData } = createHookContext(params, [
+				[
+					{
+						id: 2,
+						name: 'N8N Leadspicker Webhook',
+						url: WEBHOOK_URL,
+						features: ['email_reply', 'linkedin_reply'],
+						project_ids: [3, 12],
+					},
+				],
+			]);
+			assert.equal(await trigger.webhookMethods.default.checkExists.call(context), true);
+			assert.equal(requests[1].method, 'PATCH');
+			assert.equal(requests[1].body?.secret, staticData.webhookSecret);
+			assert.equal(staticData.webhookId, 2);
+		});
+
+		it('reports a missing webhook so that it gets created', async () => {
+			const { context, staticData } = createHookContext(params, [[]], { webhookId: 2 });
+			assert.equal(await trigger.webhookMethods.default.checkExists.call(context), false);
+			assert.equal(staticData.webhookId, undefined);
+		});
+	});
+
+	describe('create', () => {
+		it('registers every selected event and project in one webhook', async () => {
+			const { context, requests, staticData } = createHookContext(
+				{ features: ['linkedin_reply', 'email_reply'], projectIds: ['12', '3', '12'] },
+				[{ id: 7 }],
+			);
+			await trigger.webhookMethods.default.create.call(context);
+			assert.equal(requests[0].method, 'POST');
+			assert.deepEqual(requests[0].body, {
+				name: 'N8N Leadspicker Webhook',
+				url: WEBHOOK_URL,
+				features: ['email_reply', 'linkedin_reply'],
+				project_ids: [3, 12],
+				secret: staticData.webhookSecret,
+			});
+			assert.match(staticData.webhookSecret as string, /^[0-9a-f]{64}$/);
+			assert.equal(staticData.webhookId, 7);
+		});
+
+		it('keeps the single event and project saved by version 1 nodes', async () => {
+			const { context, requests } = createHookContext(
+				{ feature: 'email_reply', projectId: '__manual__', projectIdManual: 42 },
+				[{ id: 7 }],
+				{},
+				1,
+			);
+			await trigger.webhookMethods.default.create.call(context);
+			assert.deepEqual(requests[0].body?.features, ['email_reply']);
+			assert.deepEqual(requests[0].body?.project_ids, [42]);
+		});
+
+		it('requires at least one event', async () => {
+			const { context } = createHookContext({ features: [] });
+			await assert.rejects(
+				trigger.webhookMethods.default.create.call(context),
+				/at least one event/,
+			);
+		});
+	});
+
+	describe('webhook', () => {
+		it('adds the delivered event name to each output item', async () => {
+			const { context } = createWebhookContext(
+				{ features: ['email_reply', 'person_added'] },
+				{ feature: 'person_added', persons: [{ id: 1 }, { id: 2 }] },
+			);
+			const response = await trigger.webhook.call(context);
+			assert.deepEqual(
+				response.workflowData?.[0].map((item) => item.json),
+				[
+					{ event: 'person_added', campaignId: null, campaignName: null, lead: { id: 1 } },
+					{ event: 'person_added', campaignId: null, campaignName: null, lead: { id: 2 } },
+				],
+			);
+		});
+
+		it('keeps the output of version 1 nodes unchanged', async () => {
+			const added = createWebhookContext(
+				{ feature: 'person_added' },
+				{ persons: [{ id: 1, person_data: { email: 'jane@acme.com' } }] },
+				{ typeVersion: 1 },
+			);
+			const addedResponse = await trigger.webhook.call(added.context);
+			assert.deepEqual(
+				addedResponse.workflowData?.[0].map((item) => item.json),
+				[{ email: 'jane@acme.com', id: 1 }],
+			);
+
+			const body = { feature: 'email_reply', person: { id: 2, person_data: { first_name: 'Jo' } } };
+			const reply = createWebhookContext({ feature: 'email_reply' }, body, { typeVersion: 1 });
+			const replyResponse = await trigger.webhook.call(reply.context);
+			assert.deepEqual(replyResponse.workflowData?.[0][0].json, {
+				feature: 'email_reply',
+				person: { first_name: 'Jo', id: 2 },
+			});
+		});
+
+		it('falls back to the only subscribed event when the payload does not name it', async () => {
+			const { context } = createWebhookContext({ features: ['email_sent'] }, { subject: 'Hi' });
+			const response = await trigger.webhook.call(context);
+			assert.equal(response.workflowData?.[0][0].json.event, 'email_sent');
+			assert.equal((response.workflowData?.[0][0].json.message as IDataObject).subject, 'Hi');
+		});
+
+		it('acknowledges filtered-out and test deliveries without starting an execution', async () => {
+			const filtered = createWebhookContext(
+				{ features: ['email_reply'], filters: { sentiments: ['positive'] } },
+				{ sentiment: 'negative', message: { text: 'No thanks' } },
+			);
+			assert.deepEqual(await trigger.webhook.call(filtered.context), {});
+
+			const test = createWebhookContext(
+				{ features: ['email_reply'], filters: { dropTestPayloads: true } },
+				{ test: true },
+			);
+			assert.deepEqual(await trigger.webhook.call(test.context), {});
+		});
+
+		it('fills test deliveries with a sample payload of the subscribed event', async () => {
+			const { context } = createWebhookContext(
+				{ features: ['sequence_step_error', 'email_reply'] },
+				{ test: true, feature: 'email_reply' },
+			);
+			const response = await trigger.webhook.call(context);
+			const item = response.workflowData?.[0][0].json as IDataObject;
+			assert.equal(item.event, 'email_reply');
+			assert.equal(item.sentiment, 'positive');
+			assert.equal((item.lead as IDataObject).email, 'jane.doe@acme.com');
+		});
+
+		it('acknowledges a re-signed redelivery of the same event without emitting it again', async () => {
+			const params = { features: ['email_reply'] };
+			const body = { event_id: 'evt-1', message: { text: 'Hi' } };
+			const first = createWebhookContext(params, body);
+			assert.equal((await trigger.webhook.call(first.context)).workflowData?.[0].length, 1);
+
+			const timestamp = (Math.floor(Date.now() / 1000) + 30).toString();
+			const redelivery = createWebhookContext(params, body, {
+				timestamp,
+				staticData: first.staticData,
+			});
+			assert.deepEqual(await trigger.webhook.call(redelivery.context), {});
+			assert.deepEqual(Object.keys(first.staticData.seenDeliveries as IDataObject), ['id:evt-1']);
+		});
+
+		it('rejects deliveries with a wrong signature', async () => {
+			const { context, response } = createWebhookContext(
+				{ features: ['email_sent'] },
+				{ subject: 'Hi' },
+				{ secret: 'someone-else' },
+			);
+			assert.deepEqual(await trigger.webhook.call(context), { noWebhookResponse: true });
+			assert.equal(response.statusCode, 401);
+		});
+
+		it('rejects a replayed delivery', async () => {
+			const { context, response, staticData } = createWebhookContext(
+				{ features: ['email_sent'] },
+				{ subject: 'Hi' },
+			);
+			await trigger.webhook.call(context);
+			assert.equal(Object.keys(staticData.seenSignatures as IDataObject).length, 1);
+			assert.deepEqual(await trigger.webhook.call(context), { noWebhookResponse: true });
+			assert.equal(response.statusCode, 401);
+		});
+	});
+});